@@ -0,0 +1,147 @@
+/**
+ * A cached copy of an LdapEntry, kept as plain data so that it can be stored outside this process.
+ * Note that binary attribute values are Buffers.
+ */
+export interface LdapCachedEntry {
+  dn: string
+  server?: string
+  attributes: Record<string, string[] | Buffer[]>
+}
+
+/**
+ * Somewhere to keep cached results, e.g. an adapter for Redis. Values must come back from `get`
+ * just as they went into `set`, and should be forgotten after `ttlMs` milliseconds.
+ */
+export interface LdapCacheStore {
+  get: (key: string) => LdapCachedEntry[] | undefined | Promise<LdapCachedEntry[] | undefined>
+  set: (key: string, value: LdapCachedEntry[], ttlMs: number) => void | Promise<void>
+  delete: (key: string) => void | Promise<void>
+}
+
+export interface LdapCacheOptions {
+  /**
+   * How long results are kept, in milliseconds. Default is 60000.
+   */
+  ttlMs?: number
+  /**
+   * How many results the default in-memory store keeps before dropping the least recently
+   * used. Default is 1000. Ignored when you provide a `store`.
+   */
+  maxEntries?: number
+  /**
+   * Default is an in-memory LRU.
+   */
+  store?: LdapCacheStore
+}
+
+/**
+ * The default cache store, an in-memory LRU.
+ */
+export class MemoryCacheStore implements LdapCacheStore {
+  protected entries = new Map<string, { value: LdapCachedEntry[], expires: number }>()
+
+  constructor (protected maxEntries = 1000) {}
+
+  get (key: string) {
+    const cached = this.entries.get(key)
+    if (!cached) return undefined
+    this.entries.delete(key)
+    if (cached.expires < Date.now()) return undefined
+    // re-insert so that the Map's order runs from least to most recently used
+    this.entries.set(key, cached)
+    return cached.value
+  }
+
+  set (key: string, value: LdapCachedEntry[], ttlMs: number) {
+    this.entries.delete(key)
+    this.entries.set(key, { value, expires: Date.now() + ttlMs })
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break
+      this.entries.delete(oldest)
+    }
+  }
+
+  delete (key: string) {
+    this.entries.delete(key)
+  }
+}
+
+/**
+ * Lower case a DN and drop the optional spaces around its separators, so that we can tell when
+ * two DNs are the same.
+ */
+export function normalizeDN (dn: string) {
+  return dn.trim().toLocaleLowerCase().replace(/\s*([,=+])\s*/g, '$1')
+}
+
+/**
+ * The DN and all of its ancestors, normalized, ending with '' for the root of the tree.
+ */
+function lineage (dn: string) {
+  const parts = normalizeDN(dn).split(/(?<!\\),/).filter(Boolean)
+  return [...parts.map((_, i) => parts.slice(i).join(',')), '']
+}
+
+/**
+ * Wraps a cache store to keep track of which DNs each cached result depends on, so that results
+ * can be dropped when this process writes to one of them.
+ */
+export class LdapCache {
+  ttlMs: number
+  protected store: LdapCacheStore
+  protected keys = new Map<string, { dns: string[], expires: number }>()
+  protected keysByDN = new Map<string, Set<string>>()
+
+  constructor (options: LdapCacheOptions) {
+    this.ttlMs = options.ttlMs ?? 60000
+    this.store = options.store ?? new MemoryCacheStore(options.maxEntries)
+  }
+
+  async get (key: string) {
+    return await this.store.get(key)
+  }
+
+  /**
+   * Cache a result. `dns` are the entries it depends on: a write to any of them, or to any entry
+   * beneath them, will drop it.
+   */
+  async set (key: string, value: LdapCachedEntry[], dns: string[], ttlMs = this.ttlMs) {
+    this.forget(key)
+    const now = Date.now()
+    // expired results are not dropped from the store right away, so clean up our index as we go,
+    // every key since ttls vary and the index isn't in order of expiry
+    for (const [k, { expires }] of this.keys) {
+      if (expires < now) this.forget(k)
+    }
+    const normalized = dns.map(normalizeDN)
+    this.keys.set(key, { dns: normalized, expires: now + ttlMs })
+    for (const dn of normalized) {
+      if (!this.keysByDN.has(dn)) this.keysByDN.set(dn, new Set())
+      this.keysByDN.get(dn)!.add(key)
+    }
+    await this.store.set(key, value, ttlMs)
+  }
+
+  /**
+   * Drop every cached result that depends on this DN or one of its ancestors.
+   */
+  async invalidate (dn: string) {
+    const keys = new Set<string>()
+    for (const ancestor of lineage(dn)) {
+      for (const key of this.keysByDN.get(ancestor) ?? []) keys.add(key)
+    }
+    for (const key of keys) this.forget(key)
+    await Promise.all(Array.from(keys).map(async key => { await this.store.delete(key) }))
+  }
+
+  protected forget (key: string) {
+    const existing = this.keys.get(key)
+    if (!existing) return
+    this.keys.delete(key)
+    for (const dn of existing.dns) {
+      const keys = this.keysByDN.get(dn)
+      keys?.delete(key)
+      if (!keys?.size) this.keysByDN.delete(dn)
+    }
+  }
+}
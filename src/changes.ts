@@ -0,0 +1,153 @@
+import type { Filter, SearchOptions } from 'ldapts'
+import { Filters } from './filter'
+import type { LdapEntry, LdapOperationOptions } from '.'
+
+export type LdapWatermarkAttribute = 'modifyTimestamp' | 'uSNChanged'
+
+/**
+ * Where an incremental sync left off. It's a plain object so that it can be saved as JSON and
+ * handed back to changesSince next time.
+ */
+export interface LdapWatermark {
+  attribute: LdapWatermarkAttribute
+  /**
+   * The newest modifyTimestamp seen (as an ISO 8601 string) or the highest uSNChanged seen.
+   * Empty when nothing has been seen yet.
+   */
+  value: string
+  /**
+   * Lower cased DNs of entries modified near `value`, with the value each was reported at. These
+   * entries are searched for again next time in case of clock skew, but not reported twice.
+   */
+  recent: Record<string, string>
+  /**
+   * Lower cased DNs of every entry that matched, when detecting deletions.
+   */
+  dns?: string[]
+}
+
+export interface LdapChangesSinceOptions extends LdapOperationOptions {
+  filter?: string | Filter
+  /**
+   * Default is 'sub'.
+   */
+  scope?: SearchOptions['scope']
+  attributes?: string[]
+  /**
+   * Used when there's no watermark yet. Default is 'modifyTimestamp'; use 'uSNChanged' for
+   * Active Directory. Each domain controller keeps its own uSNChanged count, so a pool using it
+   * should only be configured with one server.
+   */
+  attribute?: LdapWatermarkAttribute
+  /**
+   * How far the servers' clocks may disagree (or a write may take to commit), in milliseconds.
+   * Entries modified up to this long before the watermark are searched for again. Default is
+   * 5000. Does not apply to uSNChanged.
+   */
+  skewMs?: number
+  /**
+   * Also find entries that were deleted, or no longer match the filter, by comparing a list of
+   * every matching DN with the list saved in the watermark. This costs an extra search for all
+   * the DNs and makes the watermark as big as the list.
+   */
+  detectDeletes?: boolean
+}
+
+export interface LdapChangesSinceResult {
+  watermark: LdapWatermark
+  /**
+   * DNs (lower cased) that were present last time and are gone now. Always empty unless
+   * detectDeletes was set and there was a previous watermark with a DN list.
+   */
+  deleted: string[]
+}
+
+function generalizedTime (date: Date) {
+  return date.toISOString().replace(/[-:T]/g, '').replace(/\.\d+Z$/, '.0Z')
+}
+
+/**
+ * Keeps track of the next watermark while the changes stream by, and decides which entries were
+ * already reported last time.
+ */
+export class WatermarkTracker {
+  attribute: LdapWatermarkAttribute
+  protected skewMs: number
+  protected previous?: LdapWatermark
+  protected value?: string
+  protected newest?: number
+  protected recent = new Map<string, { value: string, time: number }>()
+
+  constructor (watermark: LdapWatermark | undefined, options: LdapChangesSinceOptions) {
+    this.attribute = watermark?.attribute ?? options.attribute ?? 'modifyTimestamp'
+    this.skewMs = options.skewMs ?? 5000
+    this.previous = watermark
+    this.value = watermark?.value
+    if (watermark?.value && this.attribute === 'modifyTimestamp') {
+      this.newest = new Date(watermark.value).getTime()
+      for (const [dn, value] of Object.entries(watermark.recent)) this.recent.set(dn, { value, time: new Date(value).getTime() })
+    }
+  }
+
+  /**
+   * The filter to find everything changed since the previous watermark, combined with the
+   * caller's filter.
+   */
+  filter (filter?: string | Filter) {
+    let since: Filter | undefined
+    if (this.value) {
+      since = this.attribute === 'uSNChanged'
+        ? Filters.gte('uSNChanged', Number(this.value) + 1)
+        : Filters.gte('modifyTimestamp', generalizedTime(new Date(this.newest! - this.skewMs)))
+    }
+    if (since && filter) return Filters.and(filter, since)
+    return since ?? filter ?? '(objectClass=*)'
+  }
+
+  /**
+   * Record an entry from the search and return false if it was already reported.
+   */
+  see (entry: LdapEntry) {
+    const dn = entry.dn.toLocaleLowerCase()
+    if (this.attribute === 'uSNChanged') {
+      const usn = entry.get('uSNChanged')
+      if (usn != null && (!this.value || Number(usn) > Number(this.value))) this.value = usn
+      return true
+    }
+    const time = entry.date('modifyTimestamp')?.getTime()
+    if (time == null) return true
+    const value = new Date(time).toISOString()
+    if (this.recent.get(dn)?.value === value) return false
+    this.recent.set(dn, { value, time })
+    if (this.newest == null || time > this.newest) this.newest = time
+    return true
+  }
+
+  /**
+   * The watermark to save for next time. It only moves forward as far as the newest change we
+   * saw, never to the local clock, which may not agree with the server's.
+   */
+  watermark (dns?: string[]): LdapWatermark {
+    const recent: Record<string, string> = {}
+    if (this.attribute === 'modifyTimestamp' && this.newest != null) {
+      for (const [dn, { value, time }] of this.recent) {
+        if (time >= this.newest - this.skewMs) recent[dn] = value
+      }
+    }
+    return {
+      attribute: this.attribute,
+      value: this.attribute === 'modifyTimestamp' && this.newest != null ? new Date(this.newest).toISOString() : (this.value ?? ''),
+      recent,
+      dns
+    }
+  }
+
+  /**
+   * DNs in the previous watermark's list that are missing from the new one.
+   */
+  deleted (dns: string[]) {
+    if (!this.previous?.dns) return []
+    const current = new Set(dns)
+    return this.previous.dns.filter(dn => !current.has(dn))
+  }
+}
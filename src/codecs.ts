@@ -0,0 +1,195 @@
+/**
+ * Converts an attribute's values between their wire format and something more useful. `decode`
+ * receives a Buffer when the attribute is binary and a string otherwise. `encode` receives
+ * whatever was passed to setAttribute and friends, one value at a time.
+ */
+export interface LdapCodec<T = any> {
+  decode: (value: string | Buffer) => T
+  encode: (value: T) => string | Buffer
+}
+
+const WINDOWS_FILETIME_EPOCH_DIFF = BigInt('116444736000000000')
+const FILETIME_TO_MS = BigInt(10000)
+const GENERALIZED_TIME_RE = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(?:\.(\d+))?(Z|[+-]\d{4})$/
+// Active Directory uses 0 and the largest 64 bit integer for "never"
+const FILETIME_NEVER = '9223372036854775807'
+
+export function parseGeneralizedTime (val: string) {
+  const genMatch = val.match(GENERALIZED_TIME_RE)
+  if (!genMatch) return undefined
+  const [, ys, mons, ds, hs, mins, secs, frac, zone] = genMatch
+  const year = Number(ys)
+  const month = Number(mons) - 1
+  const day = Number(ds)
+  const hour = Number(hs)
+  const minute = Number(mins)
+  const second = Number(secs)
+  const millisecond = Number(frac?.slice(0, 3) ?? '0')
+  const utcTimestamp = Date.UTC(year, month, day, hour, minute, second, millisecond)
+  if (zone && zone !== 'Z') {
+    const sign = zone[0] === '-' ? -1 : 1
+    const offsetHours = Number(zone.slice(1, 3))
+    const offsetMinutes = Number(zone.slice(3, 5))
+    const offsetTotalMinutes = offsetHours * 60 + offsetMinutes
+    const offsetTotalMilliseconds = offsetTotalMinutes * 60 * 1000 * sign
+    return new Date(utcTimestamp - offsetTotalMilliseconds)
+  }
+  return new Date(utcTimestamp)
+}
+
+export function formatGeneralizedTime (date: Date) {
+  const ms = date.getUTCMilliseconds()
+  return date.toISOString().replace(/[-:T]/g, '').replace(/\.\d+Z$/, ms ? `.${String(ms).padStart(3, '0')}Z` : 'Z')
+}
+
+export function parseWindowsFileTime (val: string) {
+  const n = BigInt(val)
+  const msSinceEpoch = (n - WINDOWS_FILETIME_EPOCH_DIFF) / FILETIME_TO_MS
+  return new Date(Number(msSinceEpoch))
+}
+
+function str (value: string | Buffer) {
+  return Buffer.isBuffer(value) ? value.toString('utf-8') : value
+}
+
+function guidToString (buf: Buffer) {
+  // the first three groups are little endian
+  const hex = (start: number, end: number, reverse: boolean) => {
+    const bytes = Array.from(buf.subarray(start, end))
+    return (reverse ? bytes.reverse() : bytes).map(b => b.toString(16).padStart(2, '0')).join('')
+  }
+  return [hex(0, 4, true), hex(4, 6, true), hex(6, 8, true), hex(8, 10, false), hex(10, 16, false)].join('-')
+}
+
+function guidToBuffer (guid: string) {
+  const [a, b, c, d, e] = guid.split('-').map(part => Buffer.from(part, 'hex'))
+  return Buffer.concat([a.reverse(), b.reverse(), c.reverse(), d, e])
+}
+
+function sidToString (buf: Buffer) {
+  const authority = buf.readUIntBE(2, 6)
+  const subAuthorities: number[] = []
+  for (let i = 0; i < buf[1]; i++) subAuthorities.push(buf.readUInt32LE(8 + i * 4))
+  return ['S', buf[0], authority, ...subAuthorities].join('-')
+}
+
+function sidToBuffer (sid: string) {
+  const [, revision, authority, ...subAuthorities] = sid.split('-').map(Number)
+  const buf = Buffer.alloc(8 + subAuthorities.length * 4)
+  buf[0] = revision
+  buf[1] = subAuthorities.length
+  buf.writeUIntBE(authority, 2, 6)
+  subAuthorities.forEach((sub, i) => buf.writeUInt32LE(sub, 8 + i * 4))
+  return buf
+}
+
+const GUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const SID_RE = /^S-\d+-\d+(?:-\d+)*$/i
+
+// every encode passes Buffers through, so a value read from the server can be written back as is
+const integer: LdapCodec<number> = {
+  decode: value => Number(str(value)),
+  encode: (value: number | string | Buffer) => {
+    if (Buffer.isBuffer(value)) return value
+    if (typeof value === 'string' && /^-?\d+$/.test(value.trim())) return value.trim()
+    if (typeof value !== 'number' || !Number.isFinite(value)) throw new TypeError(`${String(value)} is not a number.`)
+    return String(Math.trunc(value))
+  }
+}
+
+const boolean: LdapCodec<boolean> = {
+  decode: value => str(value).toUpperCase() === 'TRUE',
+  encode: (value: boolean | string | Buffer) => {
+    if (Buffer.isBuffer(value)) return value
+    if (typeof value === 'string' && ['TRUE', 'FALSE'].includes(value.toUpperCase())) return value.toUpperCase()
+    return value ? 'TRUE' : 'FALSE'
+  }
+}
+
+const generalizedTime: LdapCodec<Date | undefined> = {
+  decode: value => parseGeneralizedTime(str(value)),
+  encode: value => {
+    if (Buffer.isBuffer(value)) return value
+    return value instanceof Date ? formatGeneralizedTime(value) : String(value)
+  }
+}
+
+/**
+ * Active Directory's 100 nanosecond intervals since 1601, e.g. accountExpires and pwdLastSet.
+ * "Never" decodes to undefined. Encode a Date, or a string like '0' to write it as is.
+ */
+const windowsFileTime: LdapCodec<Date | undefined> = {
+  decode: value => {
+    const val = str(value)
+    return val === '0' || val === FILETIME_NEVER ? undefined : parseWindowsFileTime(val)
+  },
+  encode: value => {
+    if (Buffer.isBuffer(value)) return value
+    return value instanceof Date ? (BigInt(value.getTime()) * FILETIME_TO_MS + WINDOWS_FILETIME_EPOCH_DIFF).toString() : String(value)
+  }
+}
+
+/**
+ * Active Directory's objectGUID, as a string like '3f2504e0-4f89-11d3-9a0c-0305e82c3301'.
+ */
+const guid: LdapCodec<string> = {
+  decode: value => Buffer.isBuffer(value) ? guidToString(value) : value,
+  encode: value => typeof value === 'string' && GUID_RE.test(value) ? guidToBuffer(value) : value
+}
+
+/**
+ * Active Directory's objectSid, as a string like 'S-1-5-21-1004336348-1177238915-682003330-512'.
+ */
+const sid: LdapCodec<string> = {
+  decode: value => Buffer.isBuffer(value) ? sidToString(value) : value,
+  encode: value => typeof value === 'string' && SID_RE.test(value) ? sidToBuffer(value) : value
+}
+
+const dn: LdapCodec<string> = {
+  decode: value => str(value),
+  encode: value => typeof value === 'string' ? value.trim() : value
+}
+
+function isJson (value: string) {
+  try {
+    JSON.parse(value)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * A string that is already valid JSON is written as is, so a value that has been encoded once
+ * does not get quoted again. Wrap a string in an object or array to store it as a JSON string.
+ */
+const json: LdapCodec<any> = {
+  decode: value => JSON.parse(str(value)),
+  encode: value => Buffer.isBuffer(value) || (typeof value === 'string' && isJson(value)) ? value : JSON.stringify(value)
+}
+
+/**
+ * Codecs for common attribute formats. Assign them to attributes with the `codecs` config.
+ */
+export const LdapCodecs = { integer, boolean, generalizedTime, windowsFileTime, guid, sid, dn, json }
+
+export const defaultCodecs: Record<string, LdapCodec> = {
+  accountExpires: LdapCodecs.windowsFileTime,
+  badPasswordTime: LdapCodecs.windowsFileTime,
+  lastLogon: LdapCodecs.windowsFileTime,
+  lastLogonTimestamp: LdapCodecs.windowsFileTime,
+  lockoutTime: LdapCodecs.windowsFileTime,
+  pwdLastSet: LdapCodecs.windowsFileTime,
+  createTimestamp: LdapCodecs.generalizedTime,
+  modifyTimestamp: LdapCodecs.generalizedTime,
+  pwdChangedTime: LdapCodecs.generalizedTime,
+  pwdAccountLockedTime: LdapCodecs.generalizedTime,
+  whenChanged: LdapCodecs.generalizedTime,
+  whenCreated: LdapCodecs.generalizedTime,
+  objectGUID: LdapCodecs.guid,
+  objectSid: LdapCodecs.sid,
+  sIDHistory: LdapCodecs.sid,
+  uidNumber: LdapCodecs.integer,
+  gidNumber: LdapCodecs.integer,
+  userAccountControl: LdapCodecs.integer
+}
@@ -0,0 +1,306 @@
+import asn1, { type BerReader, type BerWriter } from 'asn1'
+import { Control } from 'ldapts'
+
+const { Ber, BerWriter: Writer } = asn1
+
+/**
+ * Error codes a server may report in a PasswordPolicyControl response.
+ */
+export enum PasswordPolicyError {
+  passwordExpired = 0,
+  accountLocked = 1,
+  changeAfterReset = 2,
+  passwordModNotAllowed = 3,
+  mustSupplyOldPassword = 4,
+  insufficientPasswordQuality = 5,
+  passwordTooShort = 6,
+  passwordTooYoung = 7,
+  passwordInHistory = 8
+}
+
+/**
+ * Asks the server to report password policy state along with a bind or password change
+ * (draft-behera-ldap-password-policy). When the server responds with the same control, ldapts
+ * parses the response into this instance, so read its properties after the operation.
+ */
+export class PasswordPolicyControl extends Control {
+  static type = '1.3.6.1.4.1.42.2.27.8.5.1'
+  timeBeforeExpiration?: number
+  graceAuthNsRemaining?: number
+  error?: PasswordPolicyError
+
+  constructor (options?: { critical?: boolean }) {
+    super(PasswordPolicyControl.type, options)
+  }
+
+  protected parseControl (reader: BerReader) {
+    if (reader.readSequence() == null) return
+    const end = reader.offset + reader.length
+    while (reader.offset < end) {
+      const tag = reader.peek()
+      if (tag === 0xa0) {
+        reader.readSequence(0xa0)
+        const warning = reader.peek()
+        if (warning == null) break
+        const value = reader._readTag(warning) ?? undefined
+        if (warning === 0x80) this.timeBeforeExpiration = value
+        else this.graceAuthNsRemaining = value
+      } else if (tag === 0x81) {
+        this.error = reader._readTag(0x81) ?? undefined
+      } else break
+    }
+  }
+}
+
+/**
+ * RFC 4370 Proxied Authorization. The server performs the operation with the access rights of
+ * `authzId` instead of the identity the connection is bound as.
+ */
+export class ProxiedAuthorizationControl extends Control {
+  static type = '2.16.840.1.113730.3.4.18'
+  authzId: string
+
+  /**
+   * @param authzId e.g. 'dn:cn=someone,ou=people,dc=yourdomain,dc=com' or 'u:someone'; a bare
+   * DN will be prefixed with 'dn:' for you
+   */
+  constructor (authzId: string) {
+    // RFC 4370 requires this control to be critical
+    super(ProxiedAuthorizationControl.type, { critical: true })
+    this.authzId = /^(dn|u):/i.test(authzId) ? authzId : `dn:${authzId}`
+  }
+
+  protected writeControl (writer: BerWriter) {
+    writer.writeString(this.authzId)
+  }
+}
+
+export interface VirtualListViewRequestOptions {
+  /**
+   * One-based position in the sorted result set of the first entry to return.
+   */
+  offset: number
+  /**
+   * How many entries to return, starting at `offset`.
+   */
+  count: number
+  /**
+   * The client's estimate of the size of the result set, 0 if unknown. Only needed when `offset`
+   * was calculated from a contentCount the server reported earlier.
+   */
+  contentCount?: number
+  /**
+   * The contextID from a previous VirtualListViewResponseControl.
+   */
+  contextID?: Buffer
+}
+
+/**
+ * Virtual List View (draft-ietf-ldapext-ldapv3-vlv) asks for a window of a sorted result set,
+ * e.g. entries 61-80. It must be sent along with a ServerSideSortingRequestControl.
+ */
+export class VirtualListViewRequestControl extends Control {
+  static type = '2.16.840.1.113730.3.4.9'
+  value: VirtualListViewRequestOptions
+
+  constructor (value: VirtualListViewRequestOptions, options?: { critical?: boolean }) {
+    super(VirtualListViewRequestControl.type, options)
+    this.value = value
+  }
+
+  protected writeControl (writer: BerWriter) {
+    const controlWriter = new Writer()
+    controlWriter.startSequence()
+    controlWriter.writeInt(0) // beforeCount
+    controlWriter.writeInt(Math.max(this.value.count - 1, 0)) // afterCount
+    controlWriter.startSequence(0xa0) // byOffset
+    controlWriter.writeInt(this.value.offset)
+    controlWriter.writeInt(this.value.contentCount ?? 0)
+    controlWriter.endSequence()
+    if (this.value.contextID?.length) controlWriter.writeBuffer(this.value.contextID, Ber.OctetString)
+    controlWriter.endSequence()
+    writer.writeBuffer(controlWriter.buffer, Ber.OctetString)
+  }
+}
+
+/**
+ * The server's answer to a VirtualListViewRequestControl. ldapts only parses response controls
+ * it knows about or that share a type with a request control, so include an instance of this
+ * alongside the request: it adds nothing to the request, and the response is parsed into it.
+ */
+export class VirtualListViewResponseControl extends Control {
+  static type = '2.16.840.1.113730.3.4.10'
+  /**
+   * One-based position of the first returned entry in the sorted result set.
+   */
+  targetPosition?: number
+  contentCount?: number
+  /**
+   * An LDAP result code, 0 for success.
+   */
+  result?: number
+  contextID?: Buffer
+
+  constructor () {
+    super(VirtualListViewResponseControl.type)
+  }
+
+  write () {
+    // response only, nothing to send
+  }
+
+  protected parseControl (reader: BerReader) {
+    if (reader.readSequence() == null) return
+    const end = reader.offset + reader.length
+    this.targetPosition = reader.readInt() ?? undefined
+    this.contentCount = reader.readInt() ?? undefined
+    this.result = reader.readEnumeration() ?? undefined
+    if (reader.offset < end && reader.peek() === Ber.OctetString) this.contextID = reader.readString(Ber.OctetString, true) ?? undefined
+  }
+}
+
+export interface SyncRequestOptions {
+  mode: 'refreshOnly' | 'refreshAndPersist'
+  /**
+   * The cookie from an earlier sync, to receive only what changed since.
+   */
+  cookie?: Buffer
+  reloadHint?: boolean
+}
+
+/**
+ * RFC 4533 Content Synchronization (syncrepl), supported by OpenLDAP's syncprov overlay. Send a
+ * SyncStateControl and a SyncDoneControl along with it to read the server's responses.
+ */
+export class SyncRequestControl extends Control {
+  static type = '1.3.6.1.4.1.4203.1.9.1.1'
+  value: SyncRequestOptions
+
+  constructor (value: SyncRequestOptions, options?: { critical?: boolean }) {
+    super(SyncRequestControl.type, options)
+    this.value = value
+  }
+
+  protected writeControl (writer: BerWriter) {
+    const controlWriter = new Writer()
+    controlWriter.startSequence()
+    controlWriter.writeEnumeration(this.value.mode === 'refreshOnly' ? 1 : 3)
+    if (this.value.cookie?.length) controlWriter.writeBuffer(this.value.cookie, Ber.OctetString)
+    if (this.value.reloadHint) controlWriter.writeBoolean(true)
+    controlWriter.endSequence()
+    writer.writeBuffer(controlWriter.buffer, Ber.OctetString)
+  }
+}
+
+export enum SyncState {
+  present = 0,
+  add = 1,
+  modify = 2,
+  delete = 3
+}
+
+/**
+ * RFC 4533 Sync State, attached by the server to each entry of a content synchronization. Like
+ * VirtualListViewResponseControl, send an instance with the request to have responses parsed into
+ * it. Every entry is parsed into the same instance, so read it as each entry arrives.
+ */
+export class SyncStateControl extends Control {
+  static type = '1.3.6.1.4.1.4203.1.9.1.2'
+  state?: SyncState
+  entryUUID?: Buffer
+  cookie?: Buffer
+
+  constructor () {
+    super(SyncStateControl.type)
+  }
+
+  write () {
+    // response only, nothing to send
+  }
+
+  protected parseControl (reader: BerReader) {
+    this.state = undefined
+    this.entryUUID = undefined
+    this.cookie = undefined
+    if (reader.readSequence() == null) return
+    const end = reader.offset + reader.length
+    this.state = reader.readEnumeration() ?? undefined
+    this.entryUUID = reader.readString(Ber.OctetString, true) ?? undefined
+    if (reader.offset < end && reader.peek() === Ber.OctetString) this.cookie = reader.readString(Ber.OctetString, true) ?? undefined
+  }
+}
+
+/**
+ * RFC 4533 Sync Done, attached by the server to the end of a content synchronization. Send an
+ * instance with the request to have the response parsed into it.
+ */
+export class SyncDoneControl extends Control {
+  static type = '1.3.6.1.4.1.4203.1.9.1.3'
+  cookie?: Buffer
+  refreshDeletes?: boolean
+
+  constructor () {
+    super(SyncDoneControl.type)
+  }
+
+  write () {
+    // response only, nothing to send
+  }
+
+  protected parseControl (reader: BerReader) {
+    if (reader.readSequence() == null) return
+    const end = reader.offset + reader.length
+    if (reader.offset < end && reader.peek() === Ber.OctetString) this.cookie = reader.readString(Ber.OctetString, true) ?? undefined
+    if (reader.offset < end && reader.peek() === Ber.Boolean) this.refreshDeletes = reader.readBoolean() ?? undefined
+  }
+}
+
+export interface DirSyncOptions {
+  /**
+   * e.g. 0x1 (LDAP_DIRSYNC_OBJECT_SECURITY) to sync without the replication privileges. Default 0.
+   */
+  flags?: number
+  /**
+   * Default is 1MB.
+   */
+  maxBytes?: number
+  cookie?: Buffer
+}
+
+/**
+ * Active Directory DirSync returns the objects that changed since the cookie from a previous
+ * DirSync. The server's response uses the same type, so it is parsed into this instance: after
+ * the search, `cookie` is the new cookie and `moreResults` says whether to search again right away.
+ */
+export class DirSyncControl extends Control {
+  static type = '1.2.840.113556.1.4.841'
+  flags: number
+  maxBytes: number
+  cookie?: Buffer
+  moreResults?: boolean
+
+  constructor (value: DirSyncOptions = {}, options?: { critical?: boolean }) {
+    super(DirSyncControl.type, options)
+    this.flags = value.flags ?? 0
+    this.maxBytes = value.maxBytes ?? 1024 * 1024
+    this.cookie = value.cookie
+  }
+
+  protected writeControl (writer: BerWriter) {
+    const controlWriter = new Writer()
+    controlWriter.startSequence()
+    controlWriter.writeInt(this.flags)
+    controlWriter.writeInt(this.maxBytes)
+    if (this.cookie?.length) controlWriter.writeBuffer(this.cookie, Ber.OctetString)
+    else controlWriter.writeString('')
+    controlWriter.endSequence()
+    writer.writeBuffer(controlWriter.buffer, Ber.OctetString)
+  }
+
+  protected parseControl (reader: BerReader) {
+    if (reader.readSequence() == null) return
+    this.moreResults = !!reader.readInt()
+    reader.readInt() // unused
+    this.cookie = reader.readString(Ber.OctetString, true) ?? undefined
+  }
+}
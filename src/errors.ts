@@ -0,0 +1,55 @@
+import type { LdapSchemaViolation } from './validate'
+
+/**
+ * Thrown when a request waited longer than `acquireTimeoutMs` for a connection from the pool.
+ */
+export class LdapAcquireTimeoutError extends Error {
+  constructor (public timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms waiting for an LDAP connection from the pool.`)
+    this.name = 'LdapAcquireTimeoutError'
+  }
+}
+
+/**
+ * Thrown when every pooled connection is busy and `maxQueueLength` requests are already waiting.
+ */
+export class LdapQueueFullError extends Error {
+  constructor (public maxQueueLength: number) {
+    super(`Too many requests waiting for an LDAP connection (maximum ${maxQueueLength}).`)
+    this.name = 'LdapQueueFullError'
+  }
+}
+
+/**
+ * Thrown when an operation is cancelled with an AbortSignal. The `name` is 'AbortError' to
+ * match the errors thrown by fetch and other built-in APIs, and `reason` holds the signal's
+ * abort reason.
+ */
+export class LdapAbortError extends Error {
+  constructor (public reason?: any) {
+    super(typeof reason?.message === 'string' ? reason.message : 'The LDAP operation was aborted.')
+    this.name = 'AbortError'
+  }
+}
+
+/**
+ * Thrown when a filter string is not valid RFC 4515 syntax. `position` is the index in `filter`
+ * where parsing failed.
+ */
+export class LdapFilterSyntaxError extends Error {
+  constructor (message: string, public filter: string, public position: number) {
+    super(`${message} at position ${position} in filter: ${filter}`)
+    this.name = 'LdapFilterSyntaxError'
+  }
+}
+
+/**
+ * Thrown by writes in schema validation mode when the entry would not fit the server's schema,
+ * before anything is sent to the server. `violations` lists each problem found.
+ */
+export class LdapSchemaValidationError extends Error {
+  constructor (public dn: string, public violations: LdapSchemaViolation[]) {
+    super(`${dn} does not fit the schema. ${violations.map(v => v.message).join(' ')}`)
+    this.name = 'LdapSchemaValidationError'
+  }
+}
@@ -0,0 +1,298 @@
+import { AndFilter, ApproximateFilter, EqualityFilter, ExtensibleFilter, type Filter, GreaterThanEqualsFilter, LessThanEqualsFilter, NotFilter, OrFilter, PresenceFilter, SubstringFilter } from 'ldapts'
+import { LdapFilterSyntaxError } from './errors'
+
+/**
+ * Anywhere a filter is accepted, you may pass an ldapts Filter object or an RFC 4515 string. Strings
+ * are parsed, so a malformed one throws an LdapFilterSyntaxError instead of being sent to the server.
+ */
+export type FilterInput = Filter | string
+
+export type FilterValue = string | number | boolean | Buffer
+
+export interface SubstringAssertion {
+  initial?: FilterValue
+  any?: FilterValue[]
+  final?: FilterValue
+}
+
+export interface ExtensibleAssertion {
+  attribute?: string
+  /**
+   * A matching rule OID or name, e.g. '1.2.840.113556.1.4.803' (bitwise and in Active Directory).
+   */
+  rule?: string
+  /**
+   * Also match against the attributes in the entry's DN.
+   */
+  dnAttributes?: boolean
+  value: FilterValue
+}
+
+const utf8 = new TextDecoder('utf-8', { fatal: true })
+
+function str (value: FilterValue) {
+  return Buffer.isBuffer(value) ? value.toString('utf8') : String(value)
+}
+
+function toFilter (input: FilterInput) {
+  return typeof input === 'string' ? parseFilter(input) : input
+}
+
+class FilterStringParser {
+  protected pos = 0
+  constructor (protected input: string) {}
+
+  protected fail (message: string, position = this.pos): never {
+    throw new LdapFilterSyntaxError(message, this.input, position)
+  }
+
+  protected expect (char: string) {
+    if (this.input[this.pos] !== char) this.fail(this.pos >= this.input.length ? `Expected '${char}' but the filter ended` : `Expected '${char}' but found '${this.input[this.pos]}'`)
+    this.pos++
+  }
+
+  parse () {
+    if (!this.input.trim().length) this.fail('Filter is empty', 0)
+    // a bare item like 'cn=foo' is common enough to accept
+    if (this.input[0] !== '(') this.input = `(${this.input})`
+    const filter = this.filter()
+    if (this.pos < this.input.length) this.fail('Unexpected characters after the end of the filter')
+    return filter
+  }
+
+  protected filter (): Filter {
+    this.expect('(')
+    let filter: Filter
+    const char = this.input[this.pos]
+    if (char === '&' || char === '|') {
+      this.pos++
+      const filters: Filter[] = []
+      // RFC 4526 allows empty sets, (&) is always true and (|) is always false
+      while (this.input[this.pos] === '(') filters.push(this.filter())
+      filter = char === '&' ? new AndFilter({ filters }) : new OrFilter({ filters })
+    } else if (char === '!') {
+      this.pos++
+      filter = new NotFilter({ filter: this.filter() })
+    } else {
+      filter = this.item()
+    }
+    this.expect(')')
+    return filter
+  }
+
+  /**
+   * attr [; options], either a name starting with a letter or a numeric OID
+   */
+  protected attribute (optional = false) {
+    const match = /^(?:[A-Za-z][A-Za-z0-9-]*|\d+(?:\.\d+)+)(?:;[A-Za-z0-9-]+)*/.exec(this.input.slice(this.pos))
+    if (!match) {
+      if (optional) return ''
+      this.fail('Expected an attribute name')
+    }
+    this.pos += match[0].length
+    return match[0]
+  }
+
+  protected item (): Filter {
+    const start = this.pos
+    const attribute = this.attribute(this.input[this.pos] === ':')
+    const rest = this.input.slice(this.pos)
+    if (rest.startsWith(':')) return this.extensible(attribute)
+    if (rest.startsWith('~=')) {
+      this.pos += 2
+      return new ApproximateFilter({ attribute, value: this.stringValue() })
+    }
+    if (rest.startsWith('>=')) {
+      this.pos += 2
+      return new GreaterThanEqualsFilter({ attribute, value: this.stringValue() })
+    }
+    if (rest.startsWith('<=')) {
+      this.pos += 2
+      return new LessThanEqualsFilter({ attribute, value: this.stringValue() })
+    }
+    if (!rest.startsWith('=')) this.fail(`Expected '=', '~=', '>=', '<=' or ':=' after attribute '${attribute}'`, start + attribute.length)
+    this.pos++
+    const parts = [this.value()]
+    while (this.input[this.pos] === '*') {
+      this.pos++
+      parts.push(this.value())
+    }
+    if (parts.length === 1) return new EqualityFilter({ attribute, value: parts[0] })
+    if (parts.length === 2 && !parts[0].length && !parts[1].length) return new PresenceFilter({ attribute })
+    const [initial, ...any] = parts.map(p => this.text(p, start))
+    const final = any.pop()!
+    if (any.some(a => !a.length)) this.fail('Substring filters may not contain consecutive asterisks', start)
+    return new SubstringFilter({ attribute, initial, any, final })
+  }
+
+  protected extensible (attribute: string): Filter {
+    const start = this.pos
+    let dnAttributes = false
+    let rule: string | undefined
+    if (/^:dn(?=:)/i.test(this.input.slice(this.pos))) {
+      dnAttributes = true
+      this.pos += 3
+    }
+    if (!this.input.slice(this.pos).startsWith(':=')) {
+      this.expect(':')
+      const match = /^(?:[A-Za-z][A-Za-z0-9-]*|\d+(?:\.\d+)+)/.exec(this.input.slice(this.pos))
+      if (!match) this.fail('Expected a matching rule')
+      rule = match[0]
+      this.pos += rule.length
+    }
+    if (!attribute && !rule) this.fail('An extensible match needs an attribute, a matching rule, or both', start)
+    this.expect(':')
+    this.expect('=')
+    return new ExtensibleFilter({ matchType: attribute || undefined, rule, dnAttributes, value: this.stringValue() })
+  }
+
+  /**
+   * Read an assertion value up to the next unescaped '*' or ')', decoding \HH escapes. The result
+   * is a Buffer when the bytes are not valid UTF-8, e.g. an escaped objectGUID.
+   */
+  protected value (): string | Buffer {
+    const bytes: number[] = []
+    while (this.pos < this.input.length) {
+      const char = this.input[this.pos]
+      if (char === '*' || char === ')') break
+      if (char === '(' || char === '\0') this.fail(`Character '${char}' must be escaped`)
+      if (char === '\\') {
+        const hex = this.input.slice(this.pos + 1, this.pos + 3)
+        if (!/^[0-9A-Fa-f]{2}$/.test(hex)) this.fail('Expected two hex digits after a backslash')
+        bytes.push(parseInt(hex, 16))
+        this.pos += 3
+      } else {
+        const codePoint = this.input.codePointAt(this.pos)!
+        const encoded = Buffer.from(String.fromCodePoint(codePoint))
+        bytes.push(...encoded)
+        this.pos += codePoint > 0xffff ? 2 : 1
+      }
+    }
+    const buf = Buffer.from(bytes)
+    try {
+      return utf8.decode(buf)
+    } catch {
+      return buf
+    }
+  }
+
+  protected text (value: string | Buffer, position: number) {
+    if (Buffer.isBuffer(value)) this.fail('Binary values are only supported in equality filters', position)
+    return value
+  }
+
+  protected stringValue () {
+    const start = this.pos
+    const value = this.value()
+    if (this.input[this.pos] === '*') this.fail('Unescaped \'*\' is only allowed in equality and substring filters')
+    return this.text(value, start)
+  }
+}
+
+/**
+ * Parse an RFC 4515 filter string into ldapts Filter objects. Throws an LdapFilterSyntaxError
+ * pointing at the problem if the string is malformed.
+ */
+export function parseFilter (filter: string): Filter {
+  return new FilterStringParser(filter).parse()
+}
+
+/**
+ * Simplify a filter without changing what it matches: nested ANDs and ORs are flattened,
+ * single-member ANDs and ORs are unwrapped, duplicate members are removed, double negatives
+ * cancel out, and attribute names are lower-cased.
+ */
+export function normalizeFilter (input: FilterInput): Filter {
+  const filter = toFilter(input)
+  if (filter instanceof AndFilter || filter instanceof OrFilter) {
+    const Type = filter instanceof AndFilter ? AndFilter : OrFilter
+    const members: Filter[] = []
+    const seen = new Set<string>()
+    for (const member of filter.filters.map(normalizeFilter)) {
+      const flattened = member instanceof Type ? (member as AndFilter | OrFilter).filters : [member]
+      for (const f of flattened) {
+        // members are already normalized, so their attribute names are lower case, but values
+        // keep their case because an attribute may match case exactly
+        const key = f.toString()
+        if (seen.has(key)) continue
+        seen.add(key)
+        members.push(f)
+      }
+    }
+    return members.length === 1 ? members[0] : new Type({ filters: members })
+  }
+  if (filter instanceof NotFilter) {
+    const inner = normalizeFilter(filter.filter)
+    return inner instanceof NotFilter ? inner.filter : new NotFilter({ filter: inner })
+  }
+  if (filter instanceof EqualityFilter) return new EqualityFilter({ attribute: filter.attribute.toLowerCase(), value: filter.value })
+  if (filter instanceof ApproximateFilter) return new ApproximateFilter({ attribute: filter.attribute.toLowerCase(), value: filter.value })
+  if (filter instanceof GreaterThanEqualsFilter) return new GreaterThanEqualsFilter({ attribute: filter.attribute.toLowerCase(), value: filter.value })
+  if (filter instanceof LessThanEqualsFilter) return new LessThanEqualsFilter({ attribute: filter.attribute.toLowerCase(), value: filter.value })
+  if (filter instanceof PresenceFilter) return new PresenceFilter({ attribute: filter.attribute.toLowerCase() })
+  if (filter instanceof SubstringFilter) return new SubstringFilter({ attribute: filter.attribute.toLowerCase(), initial: filter.initial, any: filter.any, final: filter.final })
+  if (filter instanceof ExtensibleFilter) return new ExtensibleFilter({ matchType: filter.matchType.toLowerCase(), rule: filter.rule, dnAttributes: filter.dnAttributes, value: filter.value })
+  return filter
+}
+
+/**
+ * Build filters out of ldapts Filter objects instead of strings, so that values never need to be
+ * escaped by hand. Every builder also accepts filter strings where it takes another filter; they
+ * are parsed, so e.g. a user-supplied filter can be safely narrowed:
+ * Filters.and(userFilter, Filters.eq('objectClass', 'person'))
+ */
+export const Filters = {
+  eq (attribute: string, value: FilterValue): Filter {
+    return new EqualityFilter({ attribute, value: Buffer.isBuffer(value) ? value : String(value) })
+  },
+  /**
+   * Shorthand for Filters.not(Filters.eq(attribute, value)).
+   */
+  ne (attribute: string, value: FilterValue): Filter {
+    return new NotFilter({ filter: Filters.eq(attribute, value) })
+  },
+  gte (attribute: string, value: FilterValue): Filter {
+    return new GreaterThanEqualsFilter({ attribute, value: str(value) })
+  },
+  lte (attribute: string, value: FilterValue): Filter {
+    return new LessThanEqualsFilter({ attribute, value: str(value) })
+  },
+  approx (attribute: string, value: FilterValue): Filter {
+    return new ApproximateFilter({ attribute, value: str(value) })
+  },
+  present (attribute: string): Filter {
+    return new PresenceFilter({ attribute })
+  },
+  substring (attribute: string, assertion: SubstringAssertion): Filter {
+    return new SubstringFilter({ attribute, initial: str(assertion.initial ?? ''), any: (assertion.any ?? []).map(str), final: str(assertion.final ?? '') })
+  },
+  startsWith (attribute: string, value: FilterValue): Filter {
+    return Filters.substring(attribute, { initial: value })
+  },
+  endsWith (attribute: string, value: FilterValue): Filter {
+    return Filters.substring(attribute, { final: value })
+  },
+  contains (attribute: string, value: FilterValue): Filter {
+    return Filters.substring(attribute, { any: [value] })
+  },
+  extensible (assertion: ExtensibleAssertion): Filter {
+    return new ExtensibleFilter({ matchType: assertion.attribute, rule: assertion.rule, dnAttributes: assertion.dnAttributes, value: str(assertion.value) })
+  },
+  and (...filters: FilterInput[]): Filter {
+    return new AndFilter({ filters: filters.map(toFilter) })
+  },
+  or (...filters: FilterInput[]): Filter {
+    return new OrFilter({ filters: filters.map(toFilter) })
+  },
+  not (filter: FilterInput): Filter {
+    return new NotFilter({ filter: toFilter(filter) })
+  },
+  parse: parseFilter,
+  normalize: normalizeFilter,
+  /**
+   * Render a filter as an RFC 4515 string, with values escaped.
+   */
+  toString (filter: FilterInput) {
+    return toFilter(filter).toString()
+  }
+}
@@ -0,0 +1,66 @@
+import type { SearchOptions } from 'ldapts'
+
+/**
+ * How one kind of group lists its members.
+ */
+export interface LdapGroupType {
+  /**
+   * Entries with this object class are groups of this type. Matched case insensitively.
+   */
+  objectClass: string
+  /**
+   * The attribute that holds the members, e.g. member or memberUid.
+   */
+  attribute: string
+  /**
+   * 'dn': values are the DNs of the members.
+   * 'uid': values are matched against `uidAttribute` of the members, like posixGroup's memberUid.
+   * 'url': values are LDAP URLs, every entry their searches find is a member, like groupOfURLs'
+   * memberURL. These groups can't be edited with addMember and removeMember.
+   */
+  valueType: 'dn' | 'uid' | 'url'
+  /**
+   * For 'uid' groups, the attribute of the members to match. Default is uid.
+   */
+  uidAttribute?: string
+  /**
+   * For 'uid' groups, where to search for the members. Default is the naming context that
+   * contains the group.
+   */
+  uidBase?: string
+}
+
+export const memberGroupType: LdapGroupType = { objectClass: 'groupOfNames', attribute: 'member', valueType: 'dn' }
+
+export const defaultGroupTypes: LdapGroupType[] = [
+  memberGroupType,
+  // Active Directory
+  { objectClass: 'group', attribute: 'member', valueType: 'dn' },
+  { objectClass: 'groupOfUniqueNames', attribute: 'uniqueMember', valueType: 'dn' },
+  { objectClass: 'posixGroup', attribute: 'memberUid', valueType: 'uid', uidAttribute: 'uid' },
+  { objectClass: 'groupOfURLs', attribute: 'memberURL', valueType: 'url' }
+]
+
+/**
+ * uniqueMember values may end with an optional unique identifier, e.g. cn=you,dc=com#'0101'B
+ */
+export function memberDN (value: string) {
+  return value.replace(/#'[01]*'B$/, '')
+}
+
+/**
+ * Parse the search out of an RFC 4516 LDAP URL like ldap:///ou=people,dc=com??sub?(objectClass=person).
+ * The host is ignored, the search is always sent to our own servers.
+ */
+export function parseLdapUrl (url: string) {
+  const match = url.match(/^ldaps?:\/\/[^/]*\/?([^?]*)(?:\?([^?]*)(?:\?([^?]*)(?:\?([^?]*))?)?)?/i)
+  if (!match) throw new Error(`${url} is not an LDAP URL.`)
+  const [, base, attributes, scope, filter] = match.map(part => part == null ? part : decodeURIComponent(part))
+  if (scope && !['base', 'one', 'sub'].includes(scope.toLocaleLowerCase())) throw new Error(`${url} has an unsupported scope.`)
+  return {
+    base,
+    attributes: attributes ? attributes.split(',') : [],
+    scope: (scope?.toLocaleLowerCase() || 'base') as SearchOptions['scope'],
+    filter: filter || '(objectClass=*)'
+  }
+}
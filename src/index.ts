@@ -1,8 +1,33 @@
-import { Attribute, Client, type ClientOptions, type SearchOptions, Change, type AttributeOptions, type Control, type Entry, type Filter, EqualityFilter, OrFilter } from 'ldapts'
+import { AbandonRequest, Attribute, BusyError, Client, type ClientOptions, type SearchOptions, Change, type AttributeOptions, type Control, type Entry, type Filter, EqualityFilter, InvalidCredentialsError, OrFilter, ServerSideSortingRequestControl, UnavailableError, UnbindRequest } from 'ldapts'
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { EventEmitter } from 'node:events'
 import { readFileSync } from 'node:fs'
-import { Readable } from 'node:stream'
+import { pipeline, Readable, Transform } from 'node:stream'
+import { defaultCodecs, formatGeneralizedTime, type LdapCodec, LdapCodecs, parseGeneralizedTime, parseWindowsFileTime } from './codecs'
+import { LdapCache, type LdapCacheOptions, type LdapCachedEntry, normalizeDN } from './cache'
+import { type LdapChangesSinceOptions, type LdapChangesSinceResult, type LdapWatermark, WatermarkTracker } from './changes'
+import { defaultGroupTypes, type LdapGroupType, memberDN, memberGroupType, parseLdapUrl } from './groups'
+import { LdapModel, type LdapModelDefinition, type LdapModelFields } from './model'
+import { PasswordPolicyControl, PasswordPolicyError, ProxiedAuthorizationControl, VirtualListViewRequestControl, VirtualListViewResponseControl } from './controls'
+import { LdapAbortError, LdapAcquireTimeoutError, LdapQueueFullError, LdapSchemaValidationError } from './errors'
+import { Filters } from './filter'
+import { LdapSchema, type LdapRootDSE, parseRootDSE, rootDSEAttributes } from './schema'
+import { type LdapValidationValue, validateEntry } from './validate'
+import { decodeWatchCookie, type LdapWatchEvent, type LdapWatchMechanism, type LdapWatchOptions, watchControlTypes, watchMechanisms, type WatchContext } from './watch'
+
+export type { LdapChangesSinceOptions, LdapChangesSinceResult, LdapWatermark, LdapWatermarkAttribute } from './changes'
+export { MemoryCacheStore, type LdapCachedEntry, type LdapCacheOptions, type LdapCacheStore } from './cache'
+export { LdapCodecs, type LdapCodec } from './codecs'
+export * from './controls'
+export * from './errors'
+export * from './filter'
+export { defaultGroupTypes, type LdapGroupType } from './groups'
+export { LdapModel, type LdapFieldDefinition, type LdapFieldTypes, type LdapFieldValue, type LdapModelDefinition, type LdapModelFields, type LdapModelFindOptions, type LdapModelInput, type LdapModelObject } from './model'
+export type { LdapWatchEvent, LdapWatchMechanism, LdapWatchOptions } from './watch'
+export { LdapSchema, type LdapAttributeType, type LdapMatchingRule, type LdapObjectClass, type LdapRootDSE, type LdapSyntax } from './schema'
+export type { LdapSchemaViolation } from './validate'
+export { PrometheusExporter, type PrometheusExporterOptions } from './metrics'
 
-type Optional<T, K extends keyof T> = Pick<Partial<T>, K> & Omit<T, K>
 interface StreamIterator <T> {
   [Symbol.asyncIterator]: () => StreamIterator<T>
   next: () => Promise<{ done?: false, value: T }>
@@ -12,11 +37,46 @@ interface GenericReadable<T> extends Readable {
   [Symbol.asyncIterator]: () => StreamIterator<T>
 }
 
-export interface LdapConfig extends Optional<ClientOptions, 'url'> {
-  host?: string
+export interface LdapConfig extends Omit<ClientOptions, 'url'> {
+  /**
+   * One or more LDAP URLs. When more than one is given, pooled connections are spread
+   * across all the servers that are currently healthy.
+   */
+  url?: string | string[]
+  /**
+   * One or more hostnames, used to build the URL(s) when `url` is not given. A comma
+   * separated string is also accepted.
+   */
+  host?: string | string[]
   port?: string | number
   secure?: boolean
   poolSize?: number
+  /**
+   * After a server fails to connect or bind, it will not receive new connections for
+   * this many seconds unless every other server is also down. Default is 30.
+   */
+  serverCooldownSeconds?: number
+  /**
+   * When every pooled connection is busy, give up waiting for one after this many milliseconds
+   * and throw an LdapAcquireTimeoutError. Default is to wait forever. Only time in the queue
+   * counts; opening a new connection is limited by ldapts' `connectTimeout` instead.
+   */
+  acquireTimeoutMs?: number
+  /**
+   * When every pooled connection is busy, allow at most this many requests to wait for one. Any
+   * more will immediately throw an LdapQueueFullError. Default is no limit.
+   */
+  maxQueueLength?: number
+  /**
+   * Retry operations that fail for transient reasons, like a dropped connection or a busy
+   * server. Reads are retried automatically once this is set, writes only if you opt in.
+   */
+  retry?: LdapRetryOptions
+  /**
+   * Cache the results of get, search and getMembers. Writes made through this instance drop any
+   * cached results they affect. Default is no caching.
+   */
+  cache?: LdapCacheOptions
   keepaliveSeconds?: number
   idleTimeoutSeconds?: number
   startTLSCert?: string | Buffer | boolean
@@ -28,8 +88,330 @@ export interface LdapConfig extends Optional<ClientOptions, 'url'> {
   }
   preserveAttributeCase?: boolean
   transformEntries?: (entry: LdapEntry) => void
+  /**
+   * More attributes to return as Buffers, in addition to well known ones like jpegPhoto and
+   * objectGUID. Attributes with the ;binary option are always Buffers.
+   */
+  binaryAttributes?: string[]
+  /**
+   * Also return as Buffers every attribute that the server's schema gives a binary syntax, like
+   * Octet String or Certificate. The schema is read once, before the first search.
+   */
+  binaryAttributesFromSchema?: boolean
+  /**
+   * Check add and modify operations against the server's schema before sending them. See
+   * validate(). Default is false.
+   */
+  validateSchema?: boolean
+  /**
+   * Convert the values of these attributes when reading them with entry.value() and writing
+   * them with setAttribute, setAttributes and add. Use one of LdapCodecs, by name or directly,
+   * or your own. Some well known attributes, like accountExpires and objectGUID, have codecs
+   * by default; map them to null to turn that off.
+   */
+  codecs?: Record<string, LdapCodec | keyof typeof LdapCodecs | null>
+  /**
+   * How to recognize groups and read and edit their members, by object class. Default is
+   * defaultGroupTypes: groupOfNames and Active Directory's group (member), groupOfUniqueNames
+   * (uniqueMember), posixGroup (memberUid) and groupOfURLs (memberURL).
+   */
+  groupTypes?: LdapGroupType[]
+}
+export interface LdapRetryOptions {
+  /**
+   * Total number of tries, including the first. Default is 3.
+   */
+  attempts?: number
+  /**
+   * Wait this long before the first retry, doubling for each retry after that. Default is 100.
+   */
+  backoffMs?: number
+  /**
+   * Never wait longer than this between tries. Default is 2000.
+   */
+  maxBackoffMs?: number
+  /**
+   * Wait a random amount of time between zero and the backoff, so that many clients recovering
+   * from the same outage do not retry in lockstep. Default is true.
+   */
+  jitter?: boolean
+  /**
+   * Error classes that count as transient. Default is ldapts' BusyError and UnavailableError.
+   * Dropped and timed out connections are always transient.
+   */
+  errors?: (new (...args: any[]) => Error)[]
+  /**
+   * Decide for yourself whether an error is transient. Replaces the `errors` check entirely.
+   */
+  isTransient?: (error: any) => boolean
+  /**
+   * Also retry writes that are safe to repeat: setAttribute, setAttributes, pushAttribute and
+   * pullAttribute. Default is false.
+   */
+  writes?: boolean
+}
+
+const localConfig = new Set(['url', 'host', 'port', 'secure', 'poolSize', 'serverCooldownSeconds', 'acquireTimeoutMs', 'maxQueueLength', 'retry', 'cache', 'keepaliveSeconds', 'idleTimeoutSeconds', 'startTLSCert', 'logger', 'preserveAttributeCase', 'transformEntries', 'binaryAttributes', 'binaryAttributesFromSchema', 'validateSchema', 'codecs', 'groupTypes'])
+
+export interface LdapOperationOptions {
+  /**
+   * Cancel the operation. If it is waiting for a connection, it leaves the queue; if a request
+   * is in flight, the server is asked to abandon it. Either way the operation rejects with an
+   * LdapAbortError. Note that a write may have already been applied by the time the server
+   * receives the abandon request.
+   */
+  signal?: AbortSignal
+}
+
+export interface LdapCachingOptions {
+  /**
+   * Override how long the result is cached, in milliseconds, when the cache is enabled. Set 0
+   * to skip the cache and read from the server.
+   */
+  cacheTtlMs?: number
+}
+
+export interface LdapWriteOptions extends LdapOperationOptions {
+  /**
+   * Check the write against the server's schema first, and throw an LdapSchemaValidationError
+   * listing every problem instead of sending it. Default is the `validateSchema` config.
+   */
+  validate?: boolean
+}
+
+export interface LdapSearchOptions extends SearchOptions, LdapOperationOptions, LdapCachingOptions {}
+
+export interface LdapSortKey {
+  attribute: string
+  /**
+   * Sort descending.
+   */
+  reverse?: boolean
+  /**
+   * A matching rule to sort with, e.g. 'caseExactOrderingMatch'. Only used for server-side sorting.
+   */
+  orderingRule?: string
+}
+
+export interface LdapSearchPageOptions extends LdapOperationOptions {
+  filter?: string | Filter
+  /**
+   * Default is 'sub'.
+   */
+  scope?: SearchOptions['scope']
+  attributes?: string[]
+  /**
+   * An attribute name, prefixed with '-' to sort descending, or a sort key, or an array of them
+   * to break ties.
+   */
+  sort: string | LdapSortKey | (string | LdapSortKey)[]
+  /**
+   * Zero-based index of the first entry to return. Default is 0.
+   */
+  offset?: number
+  /**
+   * Maximum number of entries to return. Default is 20.
+   */
+  count?: number
+  /**
+   * The `context` from the result of a previous page of the same search. Passing it back lets
+   * the server reuse its sorted result set instead of sorting again.
+   */
+  context?: string
+}
+
+export interface LdapSearchPageResult<T = any> {
+  entries: LdapEntry<T>[]
+  /**
+   * Zero-based index of the first entry returned. The server may adjust the offset you asked
+   * for, e.g. when it was past the end of the result set.
+   */
+  offset: number
+  /**
+   * The total number of entries matching the search. Servers may report an estimate.
+   */
+  total: number
+  /**
+   * Pass this back as the `context` option when requesting another page of the same search.
+   * Only provided by servers that support Virtual List View.
+   */
+  context?: string
+  /**
+   * Whether the server sorted and sliced the results (true) or all matching entries were
+   * retrieved and sorted locally because the server doesn't support it (false).
+   */
+  serverSide: boolean
+}
+
+export interface LdapAuthenticateOptions extends LdapOperationOptions {
+  /**
+   * The DN under which to search for the user.
+   */
+  base: string
+  /**
+   * The attribute that holds the username. Default is 'uid'. For Active Directory you probably
+   * want 'sAMAccountName' or 'userPrincipalName'.
+   */
+  loginAttribute?: string
+  /**
+   * Build your own filter to find the user instead of matching `loginAttribute`. Be sure to
+   * escape the username, e.g. with ldap.filter`(mail=${username})`.
+   */
+  filter?: (username: string) => string | Filter
+  /**
+   * Default is 'sub'.
+   */
+  scope?: 'one' | 'sub'
+  /**
+   * Attributes to retrieve for the returned entry. Default is all of them.
+   */
+  attributes?: string[]
+  /**
+   * By default the password is checked by binding a new connection that is closed right after.
+   * Set to 'rebind' to bind one of the pooled connections as the user instead, then bind it back
+   * to the service account. That saves a connection handshake but briefly takes a connection out
+   * of service.
+   */
+  mode?: 'connection' | 'rebind'
+}
+
+/**
+ * Why authenticate() refused a user. 'disabled' is only reported by Active Directory.
+ */
+export type LdapAuthenticateFailureReason = 'notfound' | 'badpassword' | 'locked' | 'expired' | 'mustchange' | 'disabled'
+
+export type LdapAuthenticateResult<T = any> = {
+  success: true
+  entry: LdapEntry<T>
+  /**
+   * Reported by servers that support the password policy control.
+   */
+  passwordExpiresInSeconds?: number
+  /**
+   * Reported by servers that support the password policy control, when the password has
+   * expired but the user may still log in a few more times.
+   */
+  graceLoginsRemaining?: number
+} | {
+  success: false
+  reason: LdapAuthenticateFailureReason
+  error?: Error
+}
+
+export interface LdapLoadByOptions extends LdapOperationOptions {
+  /**
+   * Default is 'sub'.
+   */
+  scope?: 'base' | 'one' | 'sub'
+  /**
+   * Narrow down the entries that may match, e.g. '(objectClass=person)'.
+   */
+  filter?: string | Filter
+  /**
+   * Attributes to retrieve. Default is all of them.
+   */
+  attributes?: string[]
+  /**
+   * Return every entry that matches instead of only the first.
+   */
+  all?: boolean
+}
+
+/**
+ * How getGroups finds the groups an entry belongs to. 'inChain' uses Active Directory's
+ * LDAP_MATCHING_RULE_IN_CHAIN to find every nested group in one search. 'memberOf' follows the
+ * memberOf attribute maintained by Active Directory or OpenLDAP's memberof overlay. 'search'
+ * searches for groups with a member attribute pointing at each entry, one level at a time.
+ */
+export type LdapGroupsMechanism = 'inChain' | 'memberOf' | 'search'
+
+export interface LdapGetGroupsOptions extends LdapOperationOptions {
+  /**
+   * Also return the groups that contain those groups, and so on. Default is true.
+   */
+  recursive?: boolean
+  attributes?: string[]
+  /**
+   * Where to search for groups. Default is the naming context that contains the entry.
+   */
+  base?: string
+  /**
+   * Default is 'inChain' for Active Directory, then 'memberOf' if the schema has it, then 'search'.
+   */
+  mechanism?: LdapGroupsMechanism
+}
+
+export interface LdapIsMemberOptions extends LdapOperationOptions, LdapCachingOptions {
+  /**
+   * Also look for the member in nested groups. Default is true.
+   */
+  recursive?: boolean
+  /**
+   * Default is 'inChain' on Active Directory and 'search' everywhere else. With 'search', the
+   * search for each level of groups is cached when caching is enabled.
+   */
+  mechanism?: 'inChain' | 'search'
+}
+
+export interface LdapSetMembersOptions extends LdapWriteOptions {
+  /**
+   * Work out what would change without changing anything.
+   */
+  dryRun?: boolean
+  /**
+   * The most values to add or delete in one modify. Default is 1000.
+   */
+  batchSize?: number
+}
+
+export interface LdapSetMembersResult {
+  /**
+   * The values added to the group's member attribute(s): DNs, or uids for groups like posixGroup.
+   */
+  added: string[]
+  /**
+   * The values removed, as they were stored in the group.
+   */
+  removed: string[]
+  /**
+   * How many members were already in the group and stayed.
+   */
+  unchanged: number
+}
+
+export interface LdapMemberOptions extends LdapOperationOptions {
+  /**
+   * Set `paths` on each member to the chains of groups that lead to it, at most `maxPaths` of
+   * them. getMembers never caches a result with paths.
+   */
+  paths?: boolean
+  /**
+   * The most paths to keep for each member. Default is 100.
+   */
+  maxPaths?: number
+  /**
+   * How many nested groups to expand at once. Default is half the pool size, and it's never
+   * more than the pool size.
+   */
+  concurrency?: number
+  /**
+   * Don't expand groups nested more than this many levels down. With 0, only the group's own
+   * members are returned. Default is no limit.
+   */
+  maxDepth?: number
+}
+
+export interface LdapGroupTreeNode {
+  dn: string
+  /**
+   * The groups that are direct members of this one.
+   */
+  groups: LdapGroupTreeNode[]
+  /**
+   * This group is also one of its own ancestors, so its groups are not listed again.
+   */
+  cycle?: boolean
 }
-const localConfig = new Set(['host', 'port', 'secure', 'poolSize', 'keepaliveSeconds', 'idleTimeoutSeconds', 'startTLSCert', 'logger', 'preserveAttributeCase', 'transformEntries'])
 
 export interface LdapChange {
   operation: string
@@ -57,16 +439,25 @@ const dnReplacements = {
   ' ': '\\ '
 }
 
-type ValidAttributeInput = boolean | number | string | Buffer
+type ValidAttributeInput = boolean | number | string | Buffer | Date
+/**
+ * Attributes with a codec accept whatever the codec can encode, e.g. an object for JSON.
+ */
+type AttributeInput = ValidAttributeInput | ValidAttributeInput[] | object | undefined
 
 function valToString (val: Exclude<ValidAttributeInput, Buffer>) {
   if (typeof val === 'boolean') return val ? 'TRUE' : 'FALSE'
   if (typeof val === 'number') return String(val)
+  if (val instanceof Date) return formatGeneralizedTime(val)
   return val
 }
 
 function valToBuffer (val: ValidAttributeInput) {
-  return Buffer.isBuffer(val) ? val : Buffer.from(String(val), 'utf-8')
+  return Buffer.isBuffer(val) ? val : Buffer.from(valToString(val), 'utf-8')
+}
+
+function valueKey (val: string | Buffer) {
+  return Buffer.isBuffer(val) ? 'b:' + val.toString('base64') : 's:' + val
 }
 
 function valsToStringOrBuffer (vals: null | undefined | ValidAttributeInput | ValidAttributeInput[]): Buffer[] | string[] {
@@ -77,6 +468,126 @@ function valsToStringOrBuffer (vals: null | undefined | ValidAttributeInput | Va
   return (values as Exclude<ValidAttributeInput, Buffer>[]).map(valToString)
 }
 
+// LDAP_CAP_ACTIVE_DIRECTORY_OID in the RootDSE's supportedCapabilities
+const activeDirectoryCapability = '1.2.840.113556.1.4.800'
+
+function throwIfAborted (signal?: AbortSignal) {
+  if (signal?.aborted) throw new LdapAbortError(signal.reason)
+}
+
+async function abortable<T> (promise: Promise<T>, signal?: AbortSignal) {
+  if (!signal) return await promise
+  throwIfAborted(signal)
+  let onAbort: (() => void) | undefined
+  try {
+    return await Promise.race([promise, new Promise<never>((resolve, reject) => {
+      onAbort = () => { reject(new LdapAbortError(signal.reason)) }
+      signal.addEventListener('abort', onAbort, { once: true })
+    })])
+  } finally {
+    signal.removeEventListener('abort', onAbort!)
+  }
+}
+
+/**
+ * Wait for a request that is shared with other callers, like a batched search or the RootDSE
+ * we keep for the life of the pool. Aborting only stops our wait, the request carries on for
+ * everyone else.
+ */
+async function waitForShared<T> (promise: Promise<T>, signal?: AbortSignal) {
+  return await abortable(promise, signal)
+}
+
+/**
+ * Give up on everything in flight on a connection: ask the server to abandon each pending
+ * request and reject the promises ldapts is holding for them. The connection remains usable.
+ */
+function abandonPending (client: Client, reason: Error) {
+  const pending: Map<string, { message: any, reject: (e: any) => void }> = (client as any).messageDetailsByMessageId
+  for (const [id, details] of Array.from(pending.entries())) {
+    if (details.message instanceof UnbindRequest || details.message instanceof AbandonRequest) continue
+    pending.delete(id)
+    try {
+      (client as any)._send(new AbandonRequest({ messageId: (client as any)._nextMessageId(), abandonId: Number(id) })).catch(() => {})
+    } catch {
+      // the socket is already gone, nothing to abandon
+    }
+    details.reject(reason)
+  }
+}
+
+const connectionErrorCodes = new Set(['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'EPIPE', 'ETIMEDOUT', 'EHOSTUNREACH', 'ENETUNREACH'])
+/**
+ * ldapts reports dropped sockets and timeouts as plain Errors, so we have to recognize them by
+ * their messages.
+ */
+// set while withRetry is retrying an operation, so that the reads and writes it makes don't
+// also retry and multiply the attempts
+const retrying = new AsyncLocalStorage<boolean>()
+
+function isConnectionError (e: any) {
+  if (connectionErrorCodes.has(e?.code)) return true
+  return /^(Socket error|Connection closed|Socket connection not established|Connection timeout)|Operation timed out$/.test(e?.message ?? '')
+}
+
+function passwordPolicyFailure (control: PasswordPolicyControl): LdapAuthenticateFailureReason | undefined {
+  if (control.error === PasswordPolicyError.passwordExpired) return 'expired'
+  if (control.error === PasswordPolicyError.accountLocked) return 'locked'
+  if (control.error === PasswordPolicyError.changeAfterReset) return 'mustchange'
+}
+
+/**
+ * Active Directory explains a failed bind with a data code in the diagnostic message,
+ * e.g. '80090308: LdapErr: DSID-0C09042A, comment: AcceptSecurityContext error, data 775, v3839'
+ */
+const adBindFailures: Record<string, LdapAuthenticateFailureReason> = {
+  525: 'notfound',
+  '52e': 'badpassword',
+  530: 'locked',
+  531: 'locked',
+  532: 'expired',
+  533: 'disabled',
+  701: 'expired',
+  773: 'mustchange',
+  775: 'locked'
+}
+function bindFailure (e: any): LdapAuthenticateFailureReason | undefined {
+  if (!(e instanceof InvalidCredentialsError)) return undefined
+  const code = /\bdata ([0-9a-f]+)/i.exec(e.message)?.[1]?.toLowerCase()
+  return adBindFailures[code ?? ''] ?? 'badpassword'
+}
+
+function sortKeys (sort: LdapSearchPageOptions['sort']): LdapSortKey[] {
+  return (Array.isArray(sort) ? sort : [sort]).map(key => typeof key !== 'string'
+    ? key
+    : key.startsWith('-') ? { attribute: key.slice(1), reverse: true } : { attribute: key })
+}
+
+const sortCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' })
+/**
+ * Sort entries the way a server mostly would with the default ordering rules. Entries missing
+ * the attribute sort after all the others, as RFC 2891 specifies.
+ */
+function compareEntries (a: LdapEntry, b: LdapEntry, keys: LdapSortKey[]) {
+  for (const key of keys) {
+    const aVal = a.one(key.attribute)
+    const bVal = b.one(key.attribute)
+    if (aVal == null || bVal == null) {
+      if (aVal !== bVal) return aVal == null ? 1 : -1
+      continue
+    }
+    const cmp = sortCollator.compare(String(aVal), String(bVal))
+    if (cmp !== 0) return key.reverse ? -cmp : cmp
+  }
+  return 0
+}
+
+function toCache (entry: LdapEntry): LdapCachedEntry {
+  const attributes: LdapCachedEntry['attributes'] = {}
+  for (const { type, values } of entry.attrs.values()) attributes[type] = values
+  return { dn: entry.dn, server: entry.server, attributes }
+}
+
 function searchForDN (dn: string) {
   const [first, ...restComponents] = dn.split(/(?<!\\),/)
   const basedn = restComponents.join(',')
@@ -108,32 +619,182 @@ function batchOnBase (searches: { basedn: string, attr: string, val: string }[],
   return ret
 }
 
-type PooledClient = Client & { busy?: boolean, lastUsed?: Date }
+export interface LdapServer {
+  url: string
+  /**
+   * Set when the server failed to connect or bind; it will be avoided until this time passes.
+   */
+  downUntil?: Date
+  /**
+   * Number of consecutive connect/bind failures.
+   */
+  failures: number
+}
+
+export interface LdapServerStatus {
+  url: string
+  healthy: boolean
+  downUntil?: Date
+  failures: number
+  connections: number
+}
+
+export type LdapOperationType = 'search' | 'modify' | 'add' | 'remove' | 'modifyDN'
+
+export interface LdapOperationEvent {
+  operation: LdapOperationType
+  server: string
+  durationMs: number
+  /**
+   * Present when the operation failed.
+   */
+  error?: any
+}
+
+export interface LdapEvents {
+  /**
+   * A pooled connection finished connecting and binding.
+   */
+  connect: [{ server: string, durationMs: number }]
+  /**
+   * A pooled connection failed to connect or bind.
+   */
+  bindFailure: [{ server: string, error: any }]
+  /**
+   * A server was marked down after a failure, or came back up after being down.
+   */
+  serverDown: [{ server: string, downUntil: Date }]
+  serverUp: [{ server: string }]
+  /**
+   * A request had to wait in the queue because every pooled connection was busy.
+   */
+  queued: [{ queueLength: number }]
+  /**
+   * A request received a connection from the pool. `waitMs` includes time spent connecting
+   * or waiting in the queue.
+   */
+  acquire: [{ server: string, waitMs: number, queued: boolean }]
+  /**
+   * A connection was returned to the pool.
+   */
+  release: [{ server: string, heldMs: number }]
+  /**
+   * A connection was closed because it sat idle longer than `idleTimeoutSeconds`.
+   */
+  idleEvicted: [{ server: string, idleSeconds: number }]
+  /**
+   * An operation failed with a transient error and will be tried again after `delayMs`.
+   */
+  retry: [{ operation: LdapOperationType, attempt: number, delayMs: number, error: any }]
+  /**
+   * An LDAP operation completed, successfully or not. For searches, the duration includes
+   * any time spent waiting for a stream consumer to read the results.
+   */
+  operation: [LdapOperationEvent]
+}
+
+export interface LdapOperationStats {
+  count: number
+  errors: number
+  totalMs: number
+}
+
+export interface LdapStats {
+  poolSize: number
+  connections: number
+  busy: number
+  idle: number
+  queued: number
+  servers: LdapServerStatus[]
+  totals: {
+    connects: number
+    bindFailures: number
+    acquires: number
+    queued: number
+    idleEvicted: number
+  }
+  operations: Record<LdapOperationType, LdapOperationStats>
+}
+
+type LdapRetryPolicy = Required<Omit<LdapRetryOptions, 'isTransient'>> & Pick<LdapRetryOptions, 'isTransient'>
+type PooledClient = Client & { busy?: boolean, lastUsed?: Date, acquiredAt?: number, server: LdapServer }
+
+/**
+ * The state of one getMembers or getMemberStream call, shared by the groups being expanded.
+ */
+interface MemberExpansion extends Omit<LdapMemberOptions, 'paths'> {
+  attributes?: SearchOptions['attributes']
+  /**
+   * Members already returned, when deduplicating.
+   */
+  seenDN?: Set<string>
+  groupsExplored: Set<string>
+  /**
+   * The groups that list each nested group, when collecting paths.
+   */
+  groupParents?: Map<string, Set<string>>
+}
+
+interface PoolWaiter {
+  resolve: (client: PooledClient) => void
+  reject: (e: Error) => void
+  /**
+   * False once the waiter has its client or has given up.
+   */
+  pending: boolean
+}
 
-export default class Ldap {
+export default class Ldap extends EventEmitter<LdapEvents> {
   protected connectpromise?: Promise<void>
-  protected config: ClientOptions
+  protected config: Omit<ClientOptions, 'url'>
+  protected servers: LdapServer[]
+  protected serverCooldownSeconds: number
   protected clients: PooledClient[]
   protected poolSize: number
+  protected acquireTimeoutMs?: number
+  protected maxQueueLength?: number
+  protected retryPolicy?: LdapRetryPolicy
+  protected cache?: LdapCache
   protected keepaliveSeconds?: number
   protected idleTimeoutSeconds?: number
   protected intervalTimer?: ReturnType<typeof setTimeout>
-  protected preserveAttributeCase: boolean
+  /** @internal for LdapEntry */
+  readonly preserveAttributeCase: boolean
   protected transformEntries?: (entry: LdapEntry) => void
+  protected binaryAttributes: string[]
+  protected binaryAttributesFromSchema: boolean
+  protected validateSchema: boolean
+  protected groupTypes: LdapGroupType[]
+  /** @internal for LdapEntry */
+  readonly codecs = new Map<string, LdapCodec>()
   protected bindDN: string
   protected bindCredentials: string
   protected startTLSCert?: string | Buffer | boolean
-  protected poolQueue: ((client: Client & { busy?: boolean, lastUsed?: Date }) => void)[]
+  protected poolQueue: PoolWaiter[]
   protected closeRequest?: (value?: any) => void
+  protected totals: LdapStats['totals'] = { connects: 0, bindFailures: 0, acquires: 0, queued: 0, idleEvicted: 0 }
+  protected operationStats: LdapStats['operations'] = {
+    search: { count: 0, errors: 0, totalMs: 0 },
+    modify: { count: 0, errors: 0, totalMs: 0 },
+    add: { count: 0, errors: 0, totalMs: 0 },
+    remove: { count: 0, errors: 0, totalMs: 0 },
+    modifyDN: { count: 0, errors: 0, totalMs: 0 }
+  }
+
   private console: NonNullable<LdapConfig['logger']>
 
   constructor (config: LdapConfig = {}) {
-    if (!config.url) {
+    super()
+    let urls = Array.isArray(config.url) ? config.url : (config.url ? [config.url] : [])
+    if (!urls.length) {
       const secure = config.secure ?? process.env.LDAP_SECURE
       const host = config.host ?? process.env.LDAP_HOST ?? ''
       const port = config.port ?? process.env.LDAP_PORT
-      config.url = `${secure ? 'ldaps://' : 'ldap://'}${host}:${port ?? (secure ? '636' : '389')}`
+      const hosts = (Array.isArray(host) ? host : host.split(/[\s,]+/)).filter(h => h.length > 0)
+      urls = (hosts.length ? hosts : ['']).map(h => `${secure ? 'ldaps://' : 'ldap://'}${h}:${port ?? (secure ? '636' : '389')}`)
     }
+    this.servers = urls.map(url => ({ url, failures: 0 }))
+    this.serverCooldownSeconds = config.serverCooldownSeconds ?? (parseInt(process.env.LDAP_SERVER_COOLDOWN_SECONDS ?? 'NaN') || 30)
 
     this.console = config.logger ?? console
 
@@ -146,6 +807,25 @@ export default class Ldap {
 
     this.startTLSCert = config.startTLSCert ?? (!!process.env.LDAP_STARTTLS || (process.env.LDAP_STARTTLS_CERT ? readFileSync(process.env.LDAP_STARTTLS_CERT) : undefined))
     this.poolSize = config.poolSize ?? (parseInt(process.env.LDAP_POOLSIZE ?? 'NaN') || 5)
+    this.acquireTimeoutMs = config.acquireTimeoutMs ?? (parseInt(process.env.LDAP_ACQUIRE_TIMEOUT_MS ?? 'NaN') || undefined)
+    this.maxQueueLength = config.maxQueueLength ?? parseInt(process.env.LDAP_MAX_QUEUE_LENGTH ?? 'NaN')
+    if (isNaN(this.maxQueueLength)) this.maxQueueLength = undefined
+    const retryAttempts = parseInt(process.env.LDAP_RETRY_ATTEMPTS ?? 'NaN')
+    const retry = config.retry ?? (isNaN(retryAttempts) ? undefined : { attempts: retryAttempts })
+    if (retry) {
+      this.retryPolicy = {
+        attempts: retry.attempts ?? 3,
+        backoffMs: retry.backoffMs ?? 100,
+        maxBackoffMs: retry.maxBackoffMs ?? 2000,
+        jitter: retry.jitter ?? true,
+        errors: retry.errors ?? [BusyError, UnavailableError],
+        isTransient: retry.isTransient,
+        writes: retry.writes ?? false
+      }
+    }
+    const cacheTtlMs = parseInt(process.env.LDAP_CACHE_TTL_MS ?? 'NaN')
+    const cache = config.cache ?? (isNaN(cacheTtlMs) ? undefined : { ttlMs: cacheTtlMs })
+    if (cache) this.cache = new LdapCache(cache)
     this.keepaliveSeconds = config.keepaliveSeconds ?? (parseInt(process.env.LDAP_KEEPALIVE_SECONDS ?? 'NaN') || undefined)
     this.idleTimeoutSeconds = config.idleTimeoutSeconds ?? parseInt(process.env.LDAP_IDLE_TIMEOUT_SECONDS ?? 'NaN')
     if (isNaN(this.idleTimeoutSeconds)) this.idleTimeoutSeconds = 230
@@ -154,52 +834,217 @@ export default class Ldap {
     this.poolQueue = []
     this.preserveAttributeCase = config.preserveAttributeCase ?? !!process.env.LDAP_PRESERVE_ATTRIBUTE_CASE
     this.transformEntries = config.transformEntries
+    this.binaryAttributes = binaryAttributeList([...defaultBinaryAttributes, ...(config.binaryAttributes ?? process.env.LDAP_BINARY_ATTRIBUTES?.split(/[\s,]+/).filter(a => a.length > 0) ?? [])])
+    this.binaryAttributesFromSchema = config.binaryAttributesFromSchema ?? !!process.env.LDAP_BINARY_ATTRIBUTES_FROM_SCHEMA
+    this.validateSchema = config.validateSchema ?? !!process.env.LDAP_VALIDATE_SCHEMA
+    this.groupTypes = config.groupTypes ?? defaultGroupTypes
+    for (const [attr, codec] of Object.entries({ ...defaultCodecs, ...config.codecs })) {
+      if (codec) this.codecs.set(attr.toLocaleLowerCase(), typeof codec === 'string' ? LdapCodecs[codec] : codec)
+      else this.codecs.delete(attr.toLocaleLowerCase())
+    }
+  }
+
+  /**
+   * Servers in the order we should try them for a new connection. Healthy servers come first,
+   * least busy first, and servers that are cooling down after a failure come last so that we
+   * still have something to try when everything is down.
+   */
+  protected candidateServers () {
+    const now = new Date()
+    const connections = new Map<LdapServer, number>()
+    for (const c of this.clients) connections.set(c.server, (connections.get(c.server) ?? 0) + 1)
+    const healthy = this.servers.filter(s => !s.downUntil || s.downUntil <= now)
+    const down = this.servers.filter(s => s.downUntil && s.downUntil > now)
+    healthy.sort((a, b) => (connections.get(a) ?? 0) - (connections.get(b) ?? 0))
+    down.sort((a, b) => a.downUntil!.getTime() - b.downUntil!.getTime())
+    return [...healthy, ...down]
+  }
+
+  protected markServerDown (server: LdapServer, e: any) {
+    server.failures++
+    server.downUntil = new Date(Date.now() + this.serverCooldownSeconds * 1000)
+    if (this.servers.length > 1) this.console.warn(`LDAP server ${server.url} failed, will avoid it for ${this.serverCooldownSeconds} seconds.`, e?.message ?? '')
+    this.report('serverDown', { server: server.url, downUntil: server.downUntil })
+  }
+
+  protected markServerUp (server: LdapServer) {
+    if (server.downUntil) {
+      if (this.servers.length > 1) this.console.info(`LDAP server ${server.url} is back up.`)
+      this.report('serverUp', { server: server.url })
+    }
+    server.failures = 0
+    server.downUntil = undefined
+  }
+
+  /**
+   * Emit an event without letting a misbehaving listener break the pool.
+   */
+  protected report<K extends keyof LdapEvents> (event: K, ...args: LdapEvents[K]) {
+    try {
+      (this.emit as (event: K, ...args: LdapEvents[K]) => boolean)(event, ...args)
+    } catch (e: any) {
+      this.console.error(`Listener for LDAP ${event} event threw an error.`, e.message)
+    }
   }
 
   protected async connect () {
-    const client = Object.assign(new Client(this.config), { busy: true })
-    this.clients.push(client)
-    if (this.idleTimeoutSeconds) this.intervalTimer ??= setInterval(this.idleCleanup.bind(this), Math.min(1, this.idleTimeoutSeconds / 2) * 1000)
-    return await this.bindConnection(client)
+    let lastError: any
+    for (const server of this.candidateServers()) {
+      const client = Object.assign(new Client({ ...this.config, url: server.url }), { busy: true, server })
+      this.clients.push(client)
+      if (this.idleTimeoutSeconds) this.intervalTimer ??= setInterval(this.idleCleanup.bind(this), Math.min(1, this.idleTimeoutSeconds / 2) * 1000)
+      try {
+        return await this.bindConnection(client)
+      } catch (e: any) {
+        lastError = e
+      }
+    }
+    throw lastError
   }
 
   protected async bindConnection (client: PooledClient) {
+    const started = Date.now()
     try {
       if (this.startTLSCert) {
         await client.startTLS({ cert: this.startTLSCert !== true ? this.startTLSCert : undefined })
       }
       await client.bind(this.bindDN, this.bindCredentials)
       if (this.keepaliveSeconds) (client as any).socket.setKeepAlive(true, this.keepaliveSeconds * 1000)
+      this.markServerUp(client.server)
+      this.totals.connects++
+      this.report('connect', { server: client.server.url, durationMs: Date.now() - started })
       return client
     } catch (e) {
       await client.unbind().catch(() => {})
       this.clients = this.clients.filter(c => c !== client)
+      this.totals.bindFailures++
+      this.report('bindFailure', { server: client.server.url, error: e })
+      this.markServerDown(client.server, e)
       throw e
     }
   }
 
-  protected async getClient () {
+  /**
+   * Report the health of each configured server and how many pooled connections it holds.
+   */
+  serverStatus (): LdapServerStatus[] {
+    const now = new Date()
+    return this.servers.map(s => ({
+      url: s.url,
+      healthy: !s.downUntil || s.downUntil <= now,
+      downUntil: s.downUntil,
+      failures: s.failures,
+      connections: this.clients.filter(c => c.server === s).length
+    }))
+  }
+
+  /**
+   * A snapshot of the state of the pool and counts of everything it has done so far.
+   */
+  stats (): LdapStats {
+    const busy = this.clients.filter(c => c.busy).length
+    return {
+      poolSize: this.poolSize,
+      connections: this.clients.length,
+      busy,
+      idle: this.clients.length - busy,
+      queued: this.poolQueue.length,
+      servers: this.serverStatus(),
+      totals: { ...this.totals },
+      operations: Object.fromEntries(Object.entries(this.operationStats).map(([op, stats]) => [op, { ...stats }])) as LdapStats['operations']
+    }
+  }
+
+  protected async getClient (signal?: AbortSignal) {
+    throwIfAborted(signal)
+    const started = Date.now()
+    let queued = false
     let client = this.clients.find(c => !c.busy)
     if (!client) {
       if (this.clients.length < this.poolSize) {
         client = await this.connect()
       } else {
-        client = await new Promise<Client & { busy?: boolean }>(resolve => {
-          this.poolQueue.push(resolve)
-        })
+        queued = true
+        client = await this.waitInQueue(signal)
       }
     }
+    if (signal?.aborted) {
+      this.release(client)
+      throw new LdapAbortError(signal.reason)
+    }
     client.busy = true
-    if (!client.isConnected) await this.bindConnection(client)
+    if (!client.isConnected) {
+      // replace the connection the way we open new ones, the server it was on may be cooling
+      // down or gone, and connect() picks a healthy one and falls back to the others
+      this.clients = this.clients.filter(c => c !== client)
+      client = await this.connect()
+    }
+    client.acquiredAt = Date.now()
+    this.totals.acquires++
+    this.report('acquire', { server: client.server.url, waitMs: client.acquiredAt - started, queued })
     return client
   }
 
-  protected release (client: PooledClient) {
+  protected async waitInQueue (signal?: AbortSignal) {
+    if (this.maxQueueLength != null && this.poolQueue.length >= this.maxQueueLength) throw new LdapQueueFullError(this.maxQueueLength)
+    return await new Promise<PooledClient>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined
+      const giveUp = (e: Error) => {
+        // remove ourselves from the queue so that release() will never hand us a client
+        // after we have given up
+        waiter.pending = false
+        this.poolQueue = this.poolQueue.filter(w => w !== waiter)
+        clearTimeout(timer)
+        signal?.removeEventListener('abort', onAbort)
+        reject(e)
+      }
+      const onAbort = () => { giveUp(new LdapAbortError(signal!.reason)) }
+      const waiter: PoolWaiter = {
+        resolve: client => {
+          waiter.pending = false
+          clearTimeout(timer)
+          signal?.removeEventListener('abort', onAbort)
+          resolve(client)
+        },
+        reject: giveUp,
+        pending: true
+      }
+      if (this.acquireTimeoutMs) {
+        timer = setTimeout(() => { giveUp(new LdapAcquireTimeoutError(this.acquireTimeoutMs!)) }, this.acquireTimeoutMs)
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+      this.poolQueue.push(waiter)
+      this.totals.queued++
+      this.report('queued', { queueLength: this.poolQueue.length })
+    })
+  }
+
+  /**
+   * Return a client to the pool. Pass `discard` when its connection is broken, and it will be
+   * closed and replaced with a fresh connection for whoever is next in the queue.
+   */
+  protected release (client: PooledClient, discard = false) {
     client.busy = false
     client.lastUsed = new Date()
+    this.report('release', { server: client.server.url, heldMs: client.lastUsed.getTime() - (client.acquiredAt ?? client.lastUsed.getTime()) })
+    if (discard) {
+      this.clients = this.clients.filter(c => c !== client)
+      client.unbind().catch(() => {})
+    }
     const nextInQueue = this.poolQueue.shift()
-    if (nextInQueue) nextInQueue(client)
-    else if (this.clients.every(c => !c.busy) && this.closeRequest) this.closeRequest()
+    if (nextInQueue) {
+      if (discard) {
+        this.connect().then(fresh => {
+          // the waiter may have timed out or been aborted while we connected, then the new
+          // connection belongs to the pool
+          if (nextInQueue.pending) nextInQueue.resolve(fresh)
+          else this.release(fresh)
+        }, nextInQueue.reject)
+      } else {
+        client.busy = true
+        nextInQueue.resolve(client)
+      }
+    } else if (this.clients.every(c => !c.busy) && this.closeRequest) this.closeRequest()
   }
 
   protected idleCleanup () {
@@ -210,6 +1055,8 @@ export default class Ldap {
       const idleSeconds = (now.getTime() - client.lastUsed.getTime()) / 1000
       if (idleSeconds >= this.idleTimeoutSeconds!) {
         client.unbind().catch(console.error)
+        this.totals.idleEvicted++
+        this.report('idleEvicted', { server: client.server.url, idleSeconds })
         return false
       }
       return true
@@ -222,6 +1069,7 @@ export default class Ldap {
 
   async close () {
     if (this.closeRequest) return
+    for (const stop of this.watchers) stop()
     if (this.clients.some(c => c.busy)) {
       await new Promise(resolve => {
         this.closeRequest = resolve
@@ -235,71 +1083,537 @@ export default class Ldap {
     for (const client of clients) await client.unbind()
   }
 
-  async wait () {
+  /**
+   * Set only on the scoped views returned by as().
+   */
+  protected authzId?: string
+
+  /**
+   * Controls that every operation from this view of the pool must carry.
+   */
+  protected get scopeControls (): Control[] {
+    return this.authzId != null ? [new ProxiedAuthorizationControl(this.authzId)] : []
+  }
+
+  protected withScopeControls (controls?: Control | Control[]) {
+    return [...this.scopeControls, ...(controls == null ? [] : Array.isArray(controls) ? controls : [controls])]
+  }
+
+  /**
+   * Get a view of this pool that performs every search, modify, add, remove and modifyDN as
+   * another identity, using the RFC 4370 Proxied Authorization control. The directory's access
+   * controls are then checked for that identity instead of the service account. The service
+   * account must be allowed to proxy (e.g. olcAuthzPolicy and authzTo in OpenLDAP).
+   *
+   * @param authzId a DN, or an authorization ID like 'dn:cn=someone,dc=example,dc=com' or 'u:someone'
+   */
+  as (authzId: string): this {
+    return new Proxy(this, {
+      get: (target, prop, receiver) => prop === 'authzId' ? authzId : Reflect.get(target, prop, receiver)
+    })
+  }
+
+  protected isTransient (e: any) {
+    if (!this.retryPolicy || e instanceof LdapAbortError) return false
+    if (this.retryPolicy.isTransient) return this.retryPolicy.isTransient(e)
+    return isConnectionError(e) || this.retryPolicy.errors.some(errorClass => e instanceof errorClass)
+  }
+
+  /**
+   * Run an operation, trying again with exponential backoff when it fails with a transient error.
+   * Writes are only retried when the retry config allows it. `canRetry` lets the caller veto a
+   * retry, e.g. a stream that has already handed out entries. Only the outermost operation
+   * retries, anything it calls is tried once per attempt.
+   */
+  protected async withRetry<T>(operation: LdapOperationType, callback: () => Promise<T>, options?: { signal?: AbortSignal, write?: boolean, canRetry?: () => boolean }): Promise<T> {
+    const policy = this.retryPolicy
+    const attempts = !policy || retrying.getStore() === true || (options?.write && !policy.writes) ? 1 : policy.attempts
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return attempts > 1 ? await retrying.run(true, callback) : await callback()
+      } catch (e: any) {
+        if (attempt >= attempts || !this.isTransient(e) || options?.canRetry?.() === false) throw e
+        const backoff = Math.min(policy!.maxBackoffMs, policy!.backoffMs * 2 ** (attempt - 1))
+        const delayMs = policy!.jitter ? Math.round(Math.random() * backoff) : backoff
+        this.report('retry', { operation, attempt, delayMs, error: e })
+        await abortable(new Promise(resolve => setTimeout(resolve, delayMs)), options?.signal)
+      }
+    }
+  }
+
+  async wait (options?: LdapOperationOptions) {
     let loops = 0
     while (true) {
       try {
-        const client = await this.getClient()
+        const client = await this.getClient(options?.signal)
         this.release(client)
         break
       } catch (e: any) {
+        if (e instanceof LdapAbortError) throw e
         if (loops++ < 2) this.console.warn('Unable to connect to LDAP. Trying again in 2 seconds.')
         else this.console.error('Unable to connect to LDAP. Trying again in 2 seconds.', e.message)
-        await new Promise(resolve => setTimeout(resolve, 2000))
+        await abortable(new Promise(resolve => setTimeout(resolve, 2000)), options?.signal)
+      }
+    }
+  }
+
+  /**
+   * Log a user in: find their entry by username, then check their password by binding as them.
+   * The pool's connections stay bound as the service account.
+   *
+   * A failed login resolves with a reason rather than throwing. Connection problems and other
+   * unexpected errors still throw.
+   */
+  async authenticate<T = any> (username: string, password: string, options: LdapAuthenticateOptions): Promise<LdapAuthenticateResult<T>> {
+    const signal = options.signal
+    const filter = options.filter?.(username) ?? new EqualityFilter({ attribute: options.loginAttribute ?? 'uid', value: username })
+    const entries = await this.search<T>(options.base, { scope: options.scope ?? 'sub', filter, attributes: options.attributes, signal, cacheTtlMs: 0 })
+    if (entries.length !== 1) {
+      if (entries.length > 1) this.console.warn(`authenticate() found ${entries.length} entries for one username, refusing to guess which one is meant.`)
+      return { success: false, reason: 'notfound' }
+    }
+    const entry = entries[0]
+    // a bind with an empty password is an unauthenticated bind, which servers report as a success
+    if (!password.length) return { success: false, reason: 'badpassword' }
+
+    const policy = new PasswordPolicyControl()
+    try {
+      if (options.mode === 'rebind') await this.rebindAs(entry.dn, password, policy, signal)
+      else await this.bindOnce(entry.server ?? this.candidateServers()[0].url, entry.dn, password, policy, signal)
+    } catch (e: any) {
+      const reason = passwordPolicyFailure(policy) ?? bindFailure(e)
+      if (!reason) throw e
+      return { success: false, reason, error: e }
+    }
+    // e.g. a password that was reset by an administrator, the bind succeeds but the user may
+    // do nothing but change it
+    const reason = passwordPolicyFailure(policy)
+    if (reason) return { success: false, reason }
+    return { success: true, entry, passwordExpiresInSeconds: policy.timeBeforeExpiration, graceLoginsRemaining: policy.graceAuthNsRemaining }
+  }
+
+  /**
+   * Bind a brand new connection, outside the pool, and close it right away.
+   */
+  protected async bindOnce (url: string, dn: string, password: string, control: Control, signal?: AbortSignal) {
+    const client = new Client({ ...this.config, url })
+    try {
+      if (this.startTLSCert) {
+        await abortable(client.startTLS({ cert: this.startTLSCert !== true ? this.startTLSCert : undefined }), signal)
+      }
+      await abortable(client.bind(dn, password, control), signal)
+    } finally {
+      await client.unbind().catch(() => {})
+    }
+  }
+
+  /**
+   * Bind a pooled connection as someone else, then bind it back to the service account.
+   */
+  protected async rebindAs (dn: string, password: string, control: Control, signal?: AbortSignal) {
+    // the signal only applies to waiting for a connection, a bind cannot be abandoned
+    const client = await this.getClient(signal)
+    try {
+      await client.bind(dn, password, control)
+    } finally {
+      // never return a connection to the pool bound as anyone but the service account, if we
+      // can't bind it back, disconnect it and getClient() will bind it fresh next time
+      await client.bind(this.bindDN, this.bindCredentials).catch(async () => { await client.unbind() }).catch(() => {})
+      this.release(client)
+    }
+  }
+
+  async get<T = any> (base: string, options?: LdapSearchOptions, controls?: Control | Control[]) {
+    options ??= {}
+    options.scope ??= 'base'
+    return (await this.search<T>(base, options, controls))[0]
+  }
+
+  protected loadPairs = new Map<string, Set<string>>()
+  protected loadPromises: Record<string, Promise<Map<string, LdapEntry>> | undefined> = {}
+  async load (dn: string, attributes?: SearchOptions['attributes'], options?: LdapOperationOptions) {
+    const { basedn, attr, val } = searchForDN(dn)
+    const attrKey = JSON.stringify(attributes) + basedn + (this.authzId ?? '')
+    if (!this.loadPairs.has(attrKey)) this.loadPairs.set(attrKey, new Set())
+    this.loadPairs.get(attrKey)!.add(this.filter`(${attr}=${val})`)
+    this.loadPromises[attrKey] ??= new Promise((resolve, reject) => {
+      setTimeout(() => {
+        this.loadPromises[attrKey] = undefined
+        const filters = Array.from(this.loadPairs.get(attrKey)!)
+        this.loadPairs.delete(attrKey)
+        const ret = new Map<string, LdapEntry>()
+        const batches = batch(filters)
+        const promises: Promise<void>[] = []
+        for (const filters of batches) {
+          promises.push(this.search(basedn, { scope: 'sub', filter: `(|${filters.join('')})`, attributes, cacheTtlMs: 0 }).then(results => {
+            for (const entry of results) ret.set(entry.dn, entry)
+          }))
+        }
+        Promise.all(promises).then(() => { resolve(ret) }).catch(reject)
+      }, 0)
+    })
+    const entries = await waitForShared(this.loadPromises[attrKey], options?.signal)
+    return entries.get(dn)
+  }
+
+  protected loadByValues = new Map<string, Set<string>>()
+  protected loadByPromises: Record<string, Promise<Map<string, LdapEntry[]>> | undefined> = {}
+  /**
+   * Like load(), but look entries up by the value of any attribute, e.g. uid or mail. Lookups
+   * made in the same tick with the same base, attribute and options are combined into as few
+   * searches as possible. Values are matched case insensitively.
+   */
+  async loadBy<T = any> (base: string, attribute: string, value: string | number, options?: LdapLoadByOptions & { all?: false }): Promise<LdapEntry<T> | undefined>
+  async loadBy<T = any> (base: string, attribute: string, value: string | number, options: LdapLoadByOptions & { all: true }): Promise<LdapEntry<T>[]>
+  async loadBy<T = any> (base: string, attribute: string, value: string | number, options: LdapLoadByOptions = {}): Promise<LdapEntry<T> | LdapEntry<T>[] | undefined> {
+    const attributes = options.attributes?.length ? [...options.attributes, attribute] : undefined
+    const scope = options.scope ?? 'sub'
+    const key = JSON.stringify([base, attribute.toLocaleLowerCase(), scope, options.filter?.toString(), attributes, this.authzId])
+    if (!this.loadByValues.has(key)) this.loadByValues.set(key, new Set())
+    this.loadByValues.get(key)!.add(String(value))
+    this.loadByPromises[key] ??= new Promise((resolve, reject) => {
+      setTimeout(() => {
+        this.loadByPromises[key] = undefined
+        const values = Array.from(this.loadByValues.get(key)!)
+        this.loadByValues.delete(key)
+        const ret = new Map<string, LdapEntry[]>()
+        const promises: Promise<void>[] = []
+        for (const valueBatch of batch(values)) {
+          const filter = Filters.or(...valueBatch.map(v => Filters.eq(attribute, v)))
+          promises.push(this.search(base, { scope, filter: options.filter ? Filters.and(options.filter, filter) : filter, attributes, cacheTtlMs: 0 }).then(results => {
+            for (const entry of results) {
+              // an entry may have several values, e.g. more than one mail address
+              for (const v of new Set(entry.all(attribute).map(v => String(v).toLocaleLowerCase()))) {
+                if (!ret.has(v)) ret.set(v, [])
+                ret.get(v)!.push(entry)
+              }
+            }
+          }))
+        }
+        Promise.all(promises).then(() => { resolve(ret) }).catch(reject)
+      }, 0)
+    })
+    const entries = await waitForShared(this.loadByPromises[key], options.signal)
+    const matches = (entries.get(String(value).toLocaleLowerCase()) ?? []) as LdapEntry<T>[]
+    return options.all ? matches : matches[0]
+  }
+
+  /**
+   * loadBy() for several values at once. The results are in the same order as the values.
+   */
+  async loadMany<T = any> (base: string, attribute: string, values: (string | number)[], options?: LdapLoadByOptions & { all?: false }): Promise<(LdapEntry<T> | undefined)[]>
+  async loadMany<T = any> (base: string, attribute: string, values: (string | number)[], options: LdapLoadByOptions & { all: true }): Promise<LdapEntry<T>[][]>
+  async loadMany<T = any> (base: string, attribute: string, values: (string | number)[], options: LdapLoadByOptions = {}): Promise<(LdapEntry<T> | LdapEntry<T>[] | undefined)[]> {
+    return await Promise.all(values.map(async value => await this.loadBy<T>(base, attribute, value, options as LdapLoadByOptions & { all: true })))
+  }
+
+  async search<T = any>(base: string, options?: LdapSearchOptions, controls?: Control | Control[]) {
+    // we can't tell what extra controls would do to the result, so don't cache it
+    const ttlMs = this.cache && !controls ? options?.cacheTtlMs ?? this.cache.ttlMs : 0
+    const key = ttlMs ? this.searchCacheKey(base, options) : ''
+    if (ttlMs) {
+      const cached = await this.cache!.get(key)
+      if (cached) return this.fromCache<T>(cached)
+    }
+    const stream = this.stream<T>(base, options, controls)
+    const results: LdapEntry<T>[] = []
+    for await (const result of stream) {
+      results.push(result)
+    }
+    // a write to any of the returned entries drops the result, even when they were found
+    // through an alias and don't live beneath base
+    if (ttlMs) await this.cache!.set(key, results.map(toCache), [base, ...results.map(r => r.dn)], ttlMs)
+    return results
+  }
+
+  /**
+   * Every search option that can change the result is part of the key, e.g. a result limited by
+   * sizeLimit must not be served to a search without a limit.
+   */
+  protected searchCacheKey (base: string, options?: LdapSearchOptions) {
+    const { signal, cacheTtlMs, scope, filter, ...rest } = options ?? {}
+    const others = Object.entries(rest).filter(([, value]) => value != null).sort(([a], [b]) => a.localeCompare(b))
+    return 'search:' + JSON.stringify([base, scope ?? 'sub', filter?.toString(), others, this.authzId])
+  }
+
+  protected fromCache<T> (cached: LdapCachedEntry[]) {
+    // transformEntries already ran before the entries were cached
+    return cached.map(c => new LdapEntry<T>({ dn: c.dn, ...c.attributes }, this, undefined, c.server))
+  }
+
+  protected rootDSEPromise?: Promise<LdapRootDSE>
+  /**
+   * Ask the server what it supports: naming contexts, controls, extensions, SASL mechanisms and
+   * so on. Cached for the life of the pool.
+   */
+  async getRootDSE (options?: LdapOperationOptions) {
+    this.rootDSEPromise ??= this.get('', { scope: 'base', filter: '(objectClass=*)', attributes: rootDSEAttributes, explicitBufferAttributes: [], cacheTtlMs: 0 })
+      .then(entry => {
+        if (!entry) throw new Error('The LDAP server did not return its RootDSE.')
+        return parseRootDSE(entry)
+      })
+      .catch(e => {
+        this.rootDSEPromise = undefined
+        throw e
+      })
+    return await waitForShared(this.rootDSEPromise, options?.signal)
+  }
+
+  protected schemaPromise?: Promise<LdapSchema>
+  /**
+   * Retrieve and parse the server's schema. Cached for the life of the pool.
+   */
+  async getSchema (options?: LdapOperationOptions) {
+    this.schemaPromise ??= this.getRootDSE()
+      .then(async rootDSE => await this.get(rootDSE.subschemaSubentry ?? 'cn=schema', { scope: 'base', filter: '(objectClass=subschema)', attributes: ['attributeTypes', 'objectClasses', 'ldapSyntaxes', 'matchingRules'], explicitBufferAttributes: [], cacheTtlMs: 0 }))
+      .then(entry => {
+        if (!entry) throw new Error('The LDAP server did not return its schema.')
+        return new LdapSchema(entry)
+      })
+      .catch(e => {
+        this.schemaPromise = undefined
+        throw e
+      })
+    return await waitForShared(this.schemaPromise, options?.signal)
+  }
+
+  protected binaryAttributesPromise?: Promise<string[]>
+  /**
+   * The attributes to ask ldapts to return as Buffers, when the caller didn't say.
+   */
+  protected async bufferAttributes () {
+    if (!this.binaryAttributesFromSchema) return this.binaryAttributes
+    this.binaryAttributesPromise ??= this.getSchema()
+      .then(schema => binaryAttributeList([...this.binaryAttributes, ...schema.attributeTypes.filter(at => binarySyntaxes.has(at.syntax!)).flatMap(at => at.names)]))
+      .catch(e => {
+        this.console.warn('Unable to read the LDAP schema to find binary attributes, only the configured ones will be returned as Buffers.', e.message)
+        return this.binaryAttributes
+      })
+    return await this.binaryAttributesPromise
+  }
+
+  /**
+   * The controls the server advertises in its RootDSE.
+   */
+  protected async supportedControls () {
+    return new Set((await this.getRootDSE()).supportedControl)
+  }
+
+  /**
+   * Get one page of a sorted search, e.g. for a table in a UI: entries 60-79 of people sorted
+   * by sn. Uses Server Side Sorting (RFC 2891) and Virtual List View when the server supports
+   * them. Otherwise every matching entry is retrieved, then sorted and sliced here, which is fine
+   * for modest result sets but not for huge ones.
+   */
+  async searchPage<T = any> (base: string, options: LdapSearchPageOptions): Promise<LdapSearchPageResult<T>> {
+    const keys = sortKeys(options.sort)
+    const offset = Math.max(options.offset ?? 0, 0)
+    const count = options.count ?? 20
+    // the sort attributes are needed to sort without server support, so request them either way
+    // to get the same entries back from both
+    const attributes = options.attributes?.length ? [...options.attributes, ...keys.map(k => k.attribute).filter(a => !options.attributes!.includes(a))] : undefined
+    const supported = await this.supportedControls()
+    if (supported.has(ServerSideSortingRequestControl.type) && supported.has(VirtualListViewRequestControl.type)) {
+      const explicitBufferAttributes = await this.bufferAttributes()
+      return await this.withRetry('search', async () => await this.useClient(async client => {
+        const response = new VirtualListViewResponseControl()
+        const controls = this.withScopeControls([
+          new ServerSideSortingRequestControl({ critical: true, value: keys.map(k => ({ attributeType: k.attribute, orderingRule: k.orderingRule, reverseOrder: k.reverse })) }),
+          new VirtualListViewRequestControl({ offset: offset + 1, count, contextID: options.context ? Buffer.from(options.context, 'base64') : undefined }, { critical: true }),
+          response
+        ])
+        const { searchEntries } = await client.search(base, { scope: options.scope ?? 'sub', filter: options.filter, attributes, explicitBufferAttributes }, controls)
+        return {
+          entries: searchEntries.map(entry => new LdapEntry<T>(entry, this, this.transformEntries, client.server.url)),
+          offset: (response.targetPosition ?? offset + 1) - 1,
+          total: response.contentCount ?? searchEntries.length,
+          context: response.contextID?.toString('base64'),
+          serverSide: true
+        }
+      }, { operation: 'search', signal: options.signal }), { signal: options.signal })
+    }
+    const all = await this.search<T>(base, { scope: options.scope ?? 'sub', filter: options.filter, attributes, signal: options.signal })
+    all.sort((a, b) => compareEntries(a, b, keys))
+    return { entries: all.slice(offset, offset + count), offset, total: all.length, serverSide: false }
+  }
+
+  protected watchers = new Set<() => void>()
+  /**
+   * Follow changes to the entries under `base` as they happen, as an async iterator. Uses content
+   * sync (RFC 4533) on OpenLDAP, DirSync on Active Directory, or persistent search, whichever the
+   * server supports.
+   *
+   * The watch holds one connection of its own, outside the pool's rotation, and reconnects with
+   * backoff when that connection drops or the server ends the watch. Break out of the loop or
+   * abort the signal to stop.
+   */
+  async * watch<T = any> (base: string, options: LdapWatchOptions = {}): AsyncGenerator<LdapWatchEvent<T>> {
+    const signal = options.signal
+    throwIfAborted(signal)
+    const cookie = options.cookie ? decodeWatchCookie(options.cookie) : undefined
+    let mechanism = options.mechanism ?? cookie?.mechanism
+    if (!mechanism) {
+      const supported = await this.supportedControls()
+      mechanism = (['sync', 'dirsync', 'psearch'] as const).find(m => supported.has(watchControlTypes[m]))
+      if (!mechanism) throw new Error('The LDAP server does not support content sync, DirSync, or persistent search, so it cannot be watched.')
+    }
+    if (cookie && cookie.mechanism !== mechanism) throw new Error(`The watch cookie is for ${cookie.mechanism}, not ${mechanism}.`)
+
+    const queue: LdapWatchEvent<T>[] = []
+    let wake: (() => void) | undefined
+    let client: PooledClient | undefined
+    let stopped = false
+    let finished = false
+    let failure: any
+    // cuts short the wait before reconnecting
+    let interrupt: (() => void) | undefined
+    const stop = () => {
+      stopped = true
+      client?.unbind().catch(() => {})
+      wake?.()
+      interrupt?.()
+    }
+    this.watchers.add(stop)
+    signal?.addEventListener('abort', stop, { once: true })
+
+    const state: WatchContext['state'] = { cookie: cookie?.value, reporting: !options.changesOnly || !!cookie, uuids: new Map() }
+    const run = async () => {
+      const explicitBufferAttributes = await this.bufferAttributes()
+      let failures = 0
+      while (true) {
+        if (stopped) break
+        let delayMs = 0
+        try {
+          client = await this.getClient(signal)
+          // keep the connection for ourselves, the pool is free to replace it
+          this.clients = this.clients.filter(c => c !== client)
+          const server = client.server.url
+          const socket = (client as any).socket
+          await watchMechanisms[mechanism]({
+            client,
+            base,
+            options: { ...options, explicitBufferAttributes },
+            state,
+            emit: change => {
+              failures = 0
+              queue.push({ ...change, entry: change.entry && new LdapEntry<T>(change.entry, this, this.transformEntries, server) })
+              // stop reading from the server until the consumer catches up
+              if (queue.length >= 1000) socket?.pause()
+              wake?.()
+            },
+            stopped: () => stopped
+          })
+          // the server ended the watch on its own, back off so that a server that keeps doing
+          // that isn't hammered with new ones
+          delayMs = Math.min(30000, 1000 * 2 ** failures++)
+        } catch (e: any) {
+          if (stopped) break
+          // e-syncRefreshRequired, the server can no longer sync from our cookie and we must start over
+          if (e?.code === 4096) {
+            state.cookie = undefined
+            continue
+          }
+          if (!isConnectionError(e) && !(e instanceof BusyError) && !(e instanceof UnavailableError)) throw e
+          delayMs = Math.min(30000, 1000 * 2 ** failures++)
+          this.console.warn(`LDAP watch lost its connection, reconnecting in ${delayMs / 1000} seconds.`, e.message)
+        } finally {
+          client?.unbind().catch(() => {})
+          client = undefined
+        }
+        if (delayMs && !stopped) {
+          await new Promise<void>(resolve => {
+            const timer = setTimeout(resolve, delayMs)
+            interrupt = () => {
+              clearTimeout(timer)
+              resolve()
+            }
+          })
+          interrupt = undefined
+        }
       }
     }
-  }
+    run().catch(e => { failure = e }).finally(() => {
+      finished = true
+      wake?.()
+    })
 
-  async get<T = any> (base: string, options?: SearchOptions, controls?: Control | Control[]) {
-    options ??= {}
-    options.scope ??= 'base'
-    return (await this.search<T>(base, options, controls))[0]
+    try {
+      while (true) {
+        const event = queue.shift()
+        if (event) {
+          if (!queue.length) (client as any)?.socket?.resume()
+          yield event
+          continue
+        }
+        throwIfAborted(signal)
+        if (failure) throw failure
+        if (finished || stopped) return
+        await new Promise<void>(resolve => { wake = resolve })
+        wake = undefined
+      }
+    } finally {
+      stop()
+      this.watchers.delete(stop)
+      signal?.removeEventListener('abort', stop)
+    }
   }
 
-  protected loadPairs = new Map<string, Set<string>>()
-  protected loadPromises: Record<string, Promise<Map<string, LdapEntry>> | undefined> = {}
-  async load (dn: string, attributes?: SearchOptions['attributes']) {
-    const { basedn, attr, val } = searchForDN(dn)
-    const attrKey = JSON.stringify(attributes) + basedn
-    if (!this.loadPairs.has(attrKey)) this.loadPairs.set(attrKey, new Set())
-    this.loadPairs.get(attrKey)!.add(this.filter`(${attr}=${val})`)
-    this.loadPromises[attrKey] ??= new Promise((resolve, reject) => {
-      setTimeout(() => {
-        this.loadPromises[attrKey] = undefined
-        const filters = Array.from(this.loadPairs.get(attrKey)!)
-        this.loadPairs.delete(attrKey)
-        const ret = new Map<string, LdapEntry>()
-        const batches = batch(filters)
-        const promises: Promise<void>[] = []
-        for (const filters of batches) {
-          promises.push(this.search(basedn, { scope: 'sub', filter: `(|${filters.join('')})`, attributes }).then(results => {
-            for (const entry of results) ret.set(entry.dn, entry)
-          }))
+  /**
+   * Stream the entries under `base` modified since `watermark`, for directories that cannot be
+   * watched. Once the stream ends, `result` resolves with the watermark to save for next time.
+   * Without a watermark, every matching entry is streamed.
+   */
+  changesSince<T = any> (base: string, watermark?: LdapWatermark, options: LdapChangesSinceOptions = {}) {
+    const tracker = new WatermarkTracker(watermark, options)
+    const scope = options.scope ?? 'sub'
+    const signal = options.signal
+    // operational attributes are only returned when asked for by name
+    const attributes = [...(options.attributes?.length ? options.attributes : ['*']), tracker.attribute]
+    const source = this.stream<T>(base, { scope, filter: tracker.filter(options.filter), attributes, signal })
+    let resolveResult!: (result: LdapChangesSinceResult) => void
+    let rejectResult!: (e: any) => void
+    const result = new Promise<LdapChangesSinceResult>((resolve, reject) => { resolveResult = resolve; rejectResult = reject })
+    // failures are emitted on the stream too, so it's fine to never look at result
+    result.catch(() => {})
+    const changes = new Transform({
+      objectMode: true,
+      transform: (entry: LdapEntry<T>, _, callback) => { callback(null, tracker.see(entry) ? entry : undefined) },
+      flush: callback => {
+        if (!options.detectDeletes) {
+          resolveResult({ watermark: tracker.watermark(), deleted: [] })
+          callback()
+          return
         }
-        Promise.all(promises).then(() => { resolve(ret) }).catch(reject)
-      }, 0)
+        this.search(base, { scope, filter: options.filter, attributes: ['1.1'], signal, cacheTtlMs: 0 }).then(entries => {
+          const dns = entries.map(e => e.dn.toLocaleLowerCase())
+          resolveResult({ watermark: tracker.watermark(dns), deleted: tracker.deleted(dns) })
+          callback()
+        }).catch(callback)
+      }
     })
-    const entries = await this.loadPromises[attrKey]
-    return entries.get(dn)
-  }
-
-  async search<T = any>(base: string, options?: SearchOptions, controls?: Control | Control[]) {
-    const stream = this.stream<T>(base, options, controls)
-    const results: LdapEntry<T>[] = []
-    for await (const result of stream) {
-      results.push(result)
-    }
-    return results
+    pipeline(source, changes, e => { if (e) rejectResult(e) })
+    return Object.assign(changes as GenericReadable<LdapEntry<T>>, { result })
   }
 
-  stream<T = any> (base: string, options: SearchOptions = {}, controls?: Control | Array<Control>) {
+  stream<T = any> (base: string, options: LdapSearchOptions = {}, controls?: Control | Array<Control>) {
+    // copy before filling in defaults, a caller may reuse their options and expect the same cache key
+    options = { ...options }
     if (options.paged == null || options.paged === true) options.paged = {}
     if (typeof options.paged === 'object') {
+      options.paged = { ...options.paged }
       if (!options.paged.pageSize) options.paged.pageSize = 200
     }
-    options.explicitBufferAttributes ??= binaryAttributes
+    const { signal, cacheTtlMs, ...searchOptions } = options
     let canceled = false
     let unpause: ((value: any) => void) | undefined
+    let client: PooledClient | undefined
+    const onAbort = () => {
+      const e = new LdapAbortError(signal!.reason)
+      if (client) abandonPending(client, e)
+      sendError(e)
+      unpause?.(undefined)
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
     const stream = new Readable({ objectMode: true, autoDestroy: true }) as GenericReadable<LdapEntry<T>>
     stream._read = () => { unpause?.(undefined) }
     stream.on('close', () => { canceled = true })
@@ -310,36 +1624,134 @@ export default class Ldap {
       e.clientstack = e.stack
       e.stack = (stacktraceError.stack ?? '').replace(/^Error:/, `Error: ${e.message as string ?? ''}`)
       stream.emit('error', e)
+      // an abort can report its error before the search itself fails, only report once
+      canceled = true
     }
 
-    this.getClient().then(async client => {
+    let pushed = false
+    const searchOnce = async () => {
+      searchOptions.explicitBufferAttributes ??= await this.bufferAttributes()
+      client = await this.getClient(signal)
+      const started = Date.now()
+      let error: any
       try {
-        const searchIterator = client.searchPaginated(base, options ?? {}, controls ?? [])
+        const searchIterator = client.searchPaginated(base, searchOptions, this.withScopeControls(controls))
         for await (const result of searchIterator) {
           for (const entry of result.searchEntries) {
             if (canceled) break
-            const keepGoing = stream.push(new LdapEntry(entry, this, this.transformEntries))
+            pushed = true
+            const keepGoing = stream.push(new LdapEntry(entry, this, this.transformEntries, client.server.url))
             if (!keepGoing) {
               await new Promise(resolve => { unpause = resolve })
+              throwIfAborted(signal)
             }
           }
           if (canceled) break
+          // don't request another page if we've been aborted
+          throwIfAborted(signal)
         }
         stream.push(null)
+      } catch (e: any) {
+        error = e
+        throw e
       } finally {
-        this.release(client)
+        this.release(client, isConnectionError(error))
+        this.recordOperation('search', client, started, error)
       }
-    }).catch(sendError)
+    }
+    // once entries have been pushed, retrying would hand them out twice
+    this.withRetry('search', searchOnce, { signal, canRetry: () => !pushed && !canceled })
+      .catch(sendError)
+      .finally(() => { signal?.removeEventListener('abort', onAbort) })
     return stream
   }
 
-  protected async useClient<T>(callback: (client: Client) => Promise<T>) {
-    const client = await this.getClient()
+  protected recordOperation (operation: LdapOperationType, client: PooledClient, started: number, error?: any) {
+    const durationMs = Date.now() - started
+    const stats = this.operationStats[operation]
+    stats.count++
+    stats.totalMs += durationMs
+    if (error) stats.errors++
+    this.report('operation', { operation, server: client.server.url, durationMs, error })
+  }
+
+  protected async useClient<T>(callback: (client: PooledClient) => Promise<T>, options?: { operation?: LdapOperationType, signal?: AbortSignal }) {
+    const signal = options?.signal
+    const client = await this.getClient(signal)
+    const onAbort = () => { abandonPending(client, new LdapAbortError(signal!.reason)) }
+    signal?.addEventListener('abort', onAbort, { once: true })
+    const started = Date.now()
+    let error: any
     try {
       return await callback(client)
+    } catch (e: any) {
+      error = e
+      throw e
     } finally {
-      this.release(client)
+      signal?.removeEventListener('abort', onAbort)
+      this.release(client, isConnectionError(error))
+      if (options?.operation) this.recordOperation(options.operation, client, started, error)
+    }
+  }
+
+  /**
+   * Convert values for writing, with the attribute's codec if it has one.
+   * @internal public for LdapEntry
+   */
+  encode (attribute: string, val: AttributeInput) {
+    const codec = this.codecs.get(attribute.split(';')[0].toLocaleLowerCase())
+    const values: unknown[] = Array.isArray(val) ? val : (val != null ? [val] : [])
+    if (!codec) return valsToStringOrBuffer(values as ValidAttributeInput[])
+    return valsToStringOrBuffer(values.map(v => codec.encode(v)))
+  }
+
+  /**
+   * Check an entry you are about to add, or changes you are about to make to an existing entry,
+   * against the server's schema. Changes are checked against the entry as it would be after
+   * they are applied, so the entry is read from the server first.
+   */
+  async validate (dn: string, entryOrChanges: Record<string, AttributeInput> | LdapChange[], options?: LdapOperationOptions) {
+    if (Array.isArray(entryOrChanges)) return await this.validateEncoded(dn, entryOrChanges, options)
+    return await this.validateEncoded(dn, Object.fromEntries(Object.entries(entryOrChanges).map(([type, val]) => [type, this.encode(type, val)])), options)
+  }
+
+  /**
+   * validate() for values that have already been through the codecs, so that they are checked
+   * exactly as they will be sent.
+   */
+  protected async validateEncoded (dn: string, entryOrChanges: Record<string, LdapValidationValue[]> | LdapChange[], options?: LdapOperationOptions) {
+    const schema = await this.getSchema(options)
+    const attributes = new Map<string, { type: string, values: LdapValidationValue[] }>()
+    const set = (type: string, values: LdapValidationValue[]) => { attributes.set(type.split(';')[0].toLocaleLowerCase(), { type, values }) }
+    if (!Array.isArray(entryOrChanges)) {
+      for (const [type, values] of Object.entries(entryOrChanges)) set(type, values)
+      const entry = Object.fromEntries(Array.from(attributes.values(), a => [a.type, a.values]))
+      return validateEntry(schema, entry)
+    }
+    const current = await this.get(dn, { attributes: ['*'], signal: options?.signal, cacheTtlMs: 0 })
+    for (const { type, values } of current?.attrs.values() ?? []) set(type, values)
+    const changed: Record<string, LdapValidationValue[]> = {}
+    for (const { operation, modification } of entryOrChanges) {
+      const type = modification.type
+      if (!type) continue
+      const values: LdapValidationValue[] = modification.values ?? []
+      const existing = attributes.get(type.split(';')[0].toLocaleLowerCase())?.values ?? []
+      if (operation === 'add') {
+        set(type, [...existing, ...values])
+        changed[type] = [...(changed[type] ?? []), ...values]
+      } else if (operation === 'replace') {
+        set(type, values)
+        changed[type] = values
+      } else if (operation === 'delete') {
+        set(type, values.length ? existing.filter(v => !values.some(d => String(d) === String(v))) : [])
+      }
     }
+    return validateEntry(schema, Object.fromEntries(Array.from(attributes.values(), a => [a.type, a.values])), changed)
+  }
+
+  protected async assertValid (dn: string, entryOrChanges: Record<string, LdapValidationValue[]> | LdapChange[], options?: LdapOperationOptions) {
+    const violations = await this.validateEncoded(dn, entryOrChanges, options)
+    if (violations.length) throw new LdapSchemaValidationError(dn, violations)
   }
 
   /**
@@ -347,55 +1759,78 @@ export default class Ldap {
    * or pullAttribute instead, or addMember/removeMember to manage group memberships. These
    * methods add extra convenience.
    */
-  async modify (dn: string, operationOrChanges: string | LdapChange[], modification?: AttributeOptions): Promise<boolean> {
-    return await this.useClient(async client => {
-      const changes = Array.isArray(operationOrChanges)
-        ? operationOrChanges.map(c => new Change({
+  async modify (dn: string, changes: LdapChange[], options?: LdapWriteOptions): Promise<boolean>
+  async modify (dn: string, operation: string, modification: AttributeOptions, options?: LdapWriteOptions): Promise<boolean>
+  async modify (dn: string, operationOrChanges: string | LdapChange[], modificationOrOptions?: AttributeOptions | LdapWriteOptions, options?: LdapWriteOptions): Promise<boolean> {
+    const ldapChanges = Array.isArray(operationOrChanges) ? operationOrChanges : [{ operation: operationOrChanges, modification: modificationOrOptions as AttributeOptions }]
+    options = Array.isArray(operationOrChanges) ? modificationOrOptions as LdapWriteOptions : options
+    if (options?.validate ?? this.validateSchema) await this.assertValid(dn, ldapChanges, options)
+    try {
+      return await this.useClient(async client => {
+        const changes = ldapChanges.map(c => new Change({
           operation: c.operation as 'add' | 'delete' | 'replace',
           modification: c.modification instanceof Attribute ? c.modification : new Attribute(c.modification)
         }))
-        : [new Change({ operation: operationOrChanges as 'add' | 'delete' | 'replace', modification: modification instanceof Attribute ? modification : new Attribute(modification) })]
-      await client.modify(dn, changes)
-      return true
-    })
+        await client.modify(dn, changes, this.scopeControls)
+        return true
+      }, { operation: 'modify', signal: options?.signal })
+    } finally {
+      await this.cache?.invalidate(dn)
+    }
   }
 
   /**
    * Add an object into the system.
    */
-  async add (newDn: string, entry: any) {
-    return await this.useClient(async client => {
-      await client.add(newDn, entry)
-      return true
-    })
+  async add (newDn: string, entry: any, options?: LdapWriteOptions) {
+    // an array of ldapts Attributes is already in wire format
+    if (!Array.isArray(entry)) entry = Object.fromEntries(Object.entries(entry).map(([attr, val]) => [attr, this.encode(attr, val as AttributeInput)]))
+    if (options?.validate ?? this.validateSchema) await this.assertValid(newDn, Array.isArray(entry) ? Object.fromEntries(entry.map((a: Attribute) => [a.type, a.values])) : entry, options)
+    try {
+      return await this.useClient(async client => {
+        await client.add(newDn, entry, this.scopeControls)
+        return true
+      }, { operation: 'add', signal: options?.signal })
+    } finally {
+      await this.cache?.invalidate(newDn)
+    }
   }
 
   /**
    * Remove an object from the system.
    */
-  async remove (dn: string) {
-    return await this.useClient(async client => {
-      await client.del(dn)
-      return true
-    })
+  async remove (dn: string, options?: LdapOperationOptions) {
+    try {
+      return await this.useClient(async client => {
+        await client.del(dn, this.scopeControls)
+        return true
+      }, { operation: 'remove', signal: options?.signal })
+    } finally {
+      await this.cache?.invalidate(dn)
+    }
   }
 
   /**
    * Rename an object.
    */
-  async modifyDN (oldDn: string, newDn: string) {
-    return await this.useClient(async client => {
-      await client.modifyDN(oldDn, newDn)
-      return true
-    })
+  async modifyDN (oldDn: string, newDn: string, options?: LdapOperationOptions) {
+    try {
+      return await this.useClient(async client => {
+        await client.modifyDN(oldDn, newDn, this.scopeControls)
+        return true
+      }, { operation: 'modifyDN', signal: options?.signal })
+    } finally {
+      await this.cache?.invalidate(oldDn)
+      await this.cache?.invalidate(newDn)
+    }
   }
 
   /**
    * Use this method to completely replace an attribute. If you use it on an array attribute,
    * any existing values will be lost.
    */
-  async setAttribute (dn: string, attribute: string, val: ValidAttributeInput | ValidAttributeInput[] | undefined) {
-    return await this.modify(dn, 'replace', { type: attribute, values: valsToStringOrBuffer(val) })
+  async setAttribute (dn: string, attribute: string, val: AttributeInput, options?: LdapWriteOptions) {
+    return await this.withRetry('modify', async () => await this.modify(dn, 'replace', { type: attribute, values: this.encode(attribute, val) }, options), { signal: options?.signal, write: true })
   }
 
   /**
@@ -405,25 +1840,28 @@ export default class Ldap {
    * If you need to mix set and push operations, you can do multiple round trips or you can send
    * multiple operations to the `modify` method.
    */
-  async setAttributes (dn: string, modification: Record<string, ValidAttributeInput | ValidAttributeInput[] | undefined>) {
-    const changes = Object.entries(modification).map(([attr, val]) => ({ operation: 'replace', modification: { type: attr, values: valsToStringOrBuffer(val) } }))
-    return await this.modify(dn, changes)
+  async setAttributes (dn: string, modification: Record<string, AttributeInput>, options?: LdapWriteOptions) {
+    const changes = Object.entries(modification).map(([attr, val]) => ({ operation: 'replace', modification: { type: attr, values: this.encode(attr, val) } }))
+    return await this.withRetry('modify', async () => await this.modify(dn, changes, options), { signal: options?.signal, write: true })
   }
 
   /**
    * Use this method to add more values to an array attribute without removing any existing values. Any
    * values that already exist will be ignored (if you used a raw 'modify' operation, you'd get an error).
    */
-  async pushAttribute (dn: string, attribute: string, valueOrValues: string | string[]) {
+  async pushAttribute (dn: string, attribute: string, valueOrValues: string | string[], options?: LdapWriteOptions) {
     const values = Array.isArray(valueOrValues) ? valueOrValues : [valueOrValues]
-    const current = await this.get(dn)
-    // the ldap client only returns an array when there are 2 or more elements
-    // if there is only one element, it comes back as a scalar
-    const attr = await current.fullRange(attribute)
-    const existingValues = new Set(Array.isArray(attr) ? attr : [attr])
-    const valuesToAdd = values.filter(v => !existingValues.has(v))
-    if (valuesToAdd.length === 0) return true
-    return await this.modify(dn, 'add', { type: attribute, values: valuesToAdd })
+    // re-read the current values on each try, a failed try may have been applied after all
+    return await this.withRetry('modify', async () => {
+      const current = await this.get(dn, { signal: options?.signal, cacheTtlMs: 0 })
+      // the ldap client only returns an array when there are 2 or more elements
+      // if there is only one element, it comes back as a scalar
+      const attr = await current.fullRange(attribute)
+      const existingValues = new Set(Array.isArray(attr) ? attr : [attr])
+      const valuesToAdd = values.filter(v => !existingValues.has(v))
+      if (valuesToAdd.length === 0) return true
+      return await this.modify(dn, 'add', { type: attribute, values: valuesToAdd }, options)
+    }, { signal: options?.signal, write: true })
   }
 
   /**
@@ -431,68 +1869,196 @@ export default class Ldap {
    * values in place. Any values that don't already exist will be ignored (if you used a raw 'modify'
    * operation, you'd get an error).
    */
-  async pullAttribute (dn: string, attribute: string, valueOrValues: string | string[]) {
+  async pullAttribute (dn: string, attribute: string, valueOrValues: string | string[], options?: LdapWriteOptions) {
     const values = Array.isArray(valueOrValues) ? valueOrValues : [valueOrValues]
-    const current = await this.get(dn)
-    // the ldap client only returns an array when there are 2 or more elements
-    // if there is only one element, it comes back as a scalar
-    const attr = await current.fullRange(attribute)
-    const existingValues = new Set(Array.isArray(attr) ? attr : [attr])
-    const valuesToDelete = values.filter(v => existingValues.has(v))
-    if (valuesToDelete.length === 0) return true
-    return await this.modify(dn, 'delete', { type: attribute, values: valuesToDelete })
+    // re-read the current values on each try, a failed try may have been applied after all
+    return await this.withRetry('modify', async () => {
+      const current = await this.get(dn, { signal: options?.signal, cacheTtlMs: 0 })
+      // the ldap client only returns an array when there are 2 or more elements
+      // if there is only one element, it comes back as a scalar
+      const attr = await current.fullRange(attribute)
+      const existingValues = new Set(Array.isArray(attr) ? attr : [attr])
+      const valuesToDelete = values.filter(v => existingValues.has(v))
+      if (valuesToDelete.length === 0) return true
+      return await this.modify(dn, 'delete', { type: attribute, values: valuesToDelete }, options)
+    }, { signal: options?.signal, write: true })
   }
 
-  async removeAttribute (dn: string, attribute: string) {
-    return await this.modify(dn, 'delete', { type: attribute, values: undefined })
+  async removeAttribute (dn: string, attribute: string, options?: LdapWriteOptions) {
+    return await this.modify(dn, 'delete', { type: attribute, values: undefined }, options)
   }
 
   /**
    * Use this method to add a member to a group. memberdn can be an array. each memberdn can be a group or a person.
    * Any memberdn entries that are already members will be ignored.
    */
-  async addMember (memberdn: string | string[], groupdn: string) {
-    return await this.pushAttribute(groupdn, 'member', memberdn)
+  async addMember (memberdn: string | string[], groupdn: string, options?: LdapWriteOptions) {
+    return await this.editMembers('pushAttribute', memberdn, groupdn, options)
   }
 
   /**
    * Use this method to remove a member from a group. memberdn can be an array. each memberdn can be a group or a person.
    * Any memberdn entries that are not already members will be ignored.
    */
-  async removeMember (memberdn: string | string[], groupdn: string) {
-    return await this.pullAttribute(groupdn, 'member', memberdn)
-  }
-
-  private async getMemberRecur (ret: Readable, g: LdapEntry, groupsExplored: Set<string>, seenDN: Set<string> | undefined, attributes?: SearchOptions['attributes']) {
-    const members = await g.fullRange('member')
-    const batchMap = batchOnBase(members.map(searchForDN))
-    const groups: LdapEntry[] = []
-    for (const [basedn, batches] of Object.entries(batchMap)) {
-      for (const filter of batches) {
-        const strm = this.stream(basedn, { scope: 'sub', filter, attributes })
-        for await (const m of strm) {
-          const isGroup = m.one('member') != null
-          if (isGroup) groups.push(m)
-          else {
-            if (!seenDN?.has(m.dn)) {
-              seenDN?.add(m.dn)
-              const feedme = ret.push(m)
-              if (!feedme) {
-                await new Promise(resolve => {
-                  ret.once('resume', () => {
-                    resolve(undefined)
-                  })
-                })
-              }
-            }
-          }
-        }
+  async removeMember (memberdn: string | string[], groupdn: string, options?: LdapWriteOptions) {
+    return await this.editMembers('pullAttribute', memberdn, groupdn, options)
+  }
+
+  protected async editMembers (method: 'pushAttribute' | 'pullAttribute', memberdn: string | string[], groupdn: string, options?: LdapWriteOptions) {
+    const memberdns = Array.isArray(memberdn) ? memberdn : [memberdn]
+    const group = await this.get(groupdn, { attributes: ['objectClass'], signal: options?.signal, cacheTtlMs: 0 })
+    const types = this.groupTypesOf(group)
+    const editable = types.filter(t => t.valueType !== 'url')
+    if (types.length && !editable.length) throw new Error(`${groupdn} is a dynamic group, its members come from its memberURL and cannot be edited.`)
+    let ret = true
+    // a group we don't recognize is assumed to use member, which is the most common
+    for (const type of editable.length ? editable : [memberGroupType]) {
+      let values = memberdns
+      if (type.valueType === 'uid') values = await this.memberUids(memberdns, type, method === 'pushAttribute', options?.signal)
+      else if (method === 'pullAttribute') {
+        // pullAttribute only removes exact matches, but the group may list a member with other
+        // case or spacing, or with a uniqueMember's #'0101'B suffix
+        const wanted = new Set(memberdns.map(normalizeDN))
+        const current = await (await this.get(groupdn, { attributes: [type.attribute], signal: options?.signal, cacheTtlMs: 0 })).fullRange(type.attribute)
+        values = current.filter(value => wanted.has(normalizeDN(memberDN(value))))
+      }
+      if (values.length) ret = await this[method](groupdn, type.attribute, values, options) && ret
+    }
+    return ret
+  }
+
+  /**
+   * Make the direct members of a group exactly `memberdns`. The current members are read once,
+   * compared by normalized DN, and the differences are sent in modifies of at most `batchSize`
+   * values, additions first so the group is never left empty along the way.
+   */
+  async setMembers (groupdn: string, memberdns: string[], options?: LdapSetMembersOptions): Promise<LdapSetMembersResult> {
+    const group = await this.get(groupdn, { attributes: this.groupAttributes, signal: options?.signal, cacheTtlMs: 0 })
+    const types = this.groupTypesOf(group)
+    const editable = types.filter(t => t.valueType !== 'url')
+    if (types.length && !editable.length) throw new Error(`${groupdn} is a dynamic group, its members come from its memberURL and cannot be edited.`)
+    const result: LdapSetMembersResult = { added: [], removed: [], unchanged: 0 }
+    const changes: LdapChange[] = []
+    for (const type of editable.length ? editable : [memberGroupType]) {
+      const key = type.valueType === 'uid' ? (uid: string) => uid : (dn: string) => normalizeDN(memberDN(dn))
+      const current = await group.fullRange(type.attribute)
+      const desired = new Map<string, string>()
+      for (const value of type.valueType === 'uid' ? await this.memberUids(memberdns, type, true, options?.signal) : memberdns) {
+        if (!desired.has(key(value))) desired.set(key(value), value)
+      }
+      const currentKeys = new Set(current.map(key))
+      const added = Array.from(desired.entries()).filter(([k]) => !currentKeys.has(k)).map(([, value]) => value)
+      const removed = current.filter(value => !desired.has(key(value)))
+      result.added.push(...added)
+      result.removed.push(...removed)
+      result.unchanged += current.length - removed.length
+      for (const values of batch(added, options?.batchSize ?? 1000)) {
+        if (values.length) changes.push({ operation: 'add', modification: { type: type.attribute, values } })
       }
+      for (const values of batch(removed, options?.batchSize ?? 1000)) {
+        if (values.length) changes.push({ operation: 'delete', modification: { type: type.attribute, values } })
+      }
+    }
+    if (options?.dryRun) return result
+    changes.sort((a, b) => a.operation === b.operation ? 0 : a.operation === 'add' ? -1 : 1)
+    for (const change of changes) await this.modify(groupdn, [change], options)
+    return result
+  }
+
+  /**
+   * The uids to put in a group that lists its members by uid.
+   */
+  protected async memberUids (memberdns: string[], type: LdapGroupType, required: boolean, signal?: AbortSignal) {
+    const uidAttribute = type.uidAttribute ?? 'uid'
+    const members = await Promise.all(memberdns.map(async dn => await this.load(dn, [uidAttribute], { signal })))
+    const uids: string[] = []
+    for (let i = 0; i < memberdns.length; i++) {
+      const uid = members[i]?.get(uidAttribute)
+      if (uid != null) uids.push(uid)
+      else if (required) throw new Error(`${memberdns[i]} has no ${uidAttribute}, so it cannot be added to a ${type.objectClass}.`)
+    }
+    return uids
+  }
+
+  /**
+   * The configured group types that apply to an entry, by its object classes. Empty when the
+   * entry is not a recognized group, or objectClass wasn't retrieved.
+   */
+  protected groupTypesOf (entry: LdapEntry) {
+    const objectClasses = new Set(entry.all('objectClass').map(oc => oc.toLocaleLowerCase()))
+    return this.groupTypes.filter(t => objectClasses.has(t.objectClass.toLocaleLowerCase()))
+  }
+
+  protected isGroup (entry: LdapEntry) {
+    return this.groupTypesOf(entry).length > 0 || entry.one('member') != null
+  }
+
+  /**
+   * Every attribute needed to recognize a group and find its members.
+   */
+  protected get groupAttributes () {
+    return Array.from(new Set(['objectClass', 'member', ...this.groupTypes.map(t => t.attribute)]))
+  }
+
+  /**
+   * A filter that finds every group type's entries.
+   */
+  protected get groupFilter () {
+    return Filters.or(...Array.from(new Set(this.groupTypes.map(t => t.objectClass.toLocaleLowerCase()))).map(oc => Filters.eq('objectClass', oc)), Filters.present('member'))
+  }
+
+  /**
+   * A filter that finds the groups that list any of the given DNs or uids as a direct member.
+   * Dynamic groups can't be found this way.
+   */
+  protected memberFilter (dns: string[], uids: string[] = []) {
+    const filters: Filter[] = []
+    for (const attribute of new Set(this.groupTypes.filter(t => t.valueType === 'dn').map(t => t.attribute).concat('member'))) {
+      filters.push(...dns.map(dn => Filters.eq(attribute, dn)))
+    }
+    for (const attribute of new Set(this.groupTypes.filter(t => t.valueType === 'uid').map(t => t.attribute))) {
+      filters.push(...uids.map(uid => Filters.eq(attribute, uid)))
     }
-    for (const sg of groups) {
-      if (!groupsExplored.has(sg.dn)) {
-        groupsExplored.add(sg.dn)
-        await this.getMemberRecur(ret, sg, groupsExplored, seenDN, attributes)
+    return Filters.or(...filters)
+  }
+
+  /**
+   * The uids an entry would be listed under in groups that list members by uid.
+   */
+  protected async uidsOf (dn: string, signal?: AbortSignal) {
+    const uidAttributes = Array.from(new Set(this.groupTypes.filter(t => t.valueType === 'uid').map(t => t.uidAttribute ?? 'uid')))
+    if (!uidAttributes.length) return []
+    const entry = await this.load(dn, uidAttributes, { signal })
+    return uidAttributes.flatMap(attr => entry?.all(attr) ?? [])
+  }
+
+  /**
+   * Stream the direct members of a group, whatever its type. With `onlyGroups`, only the members
+   * that are groups themselves, and members listed by uid are skipped since they are never groups.
+   */
+  protected async * directMembers<T = any> (g: LdapEntry, attributes: SearchOptions['attributes'] | undefined, signal?: AbortSignal, onlyGroups = false): AsyncGenerator<LdapEntry<T>> {
+    const types = this.groupTypesOf(g)
+    for (const type of types.length ? types : [memberGroupType]) {
+      if (type.valueType === 'dn') {
+        const members = (await g.fullRange(type.attribute)).map(memberDN)
+        for (const [basedn, filters] of Object.entries(batchOnBase(members.map(searchForDN)))) {
+          for (const filter of filters) {
+            yield * this.stream<T>(basedn, { scope: 'sub', filter: onlyGroups ? Filters.and(this.groupFilter, filter) : filter, attributes, signal })
+          }
+        }
+      } else if (type.valueType === 'uid') {
+        if (onlyGroups) continue
+        const uids = await g.fullRange(type.attribute)
+        const base = type.uidBase ?? await this.namingContextFor(g.dn)
+        for (const values of batch(uids)) {
+          if (!values.length) continue
+          yield * this.stream<T>(base, { scope: 'sub', filter: Filters.or(...values.map(uid => Filters.eq(type.uidAttribute ?? 'uid', uid))), attributes, signal })
+        }
+      } else {
+        for (const url of g.all(type.attribute)) {
+          const search = parseLdapUrl(url)
+          yield * this.stream<T>(search.base, { scope: search.scope, filter: onlyGroups ? Filters.and(this.groupFilter, search.filter) : search.filter, attributes, signal })
+        }
       }
     }
   }
@@ -504,31 +2070,357 @@ export default class Ldap {
    *
    * `deduplicate` is false by default, because it uses potentially unlimited memory, and the user
    * was streaming, so they were trying to avoid runaway memory use.
+   *
+   * With the `paths` option, each member's `paths` holds the chain of groups it was found through,
+   * from `groupdn` down to the group that lists it.
    */
-  getMemberStream<T = any> (groupdn: string, attributes?: SearchOptions['attributes'], options?: { deduplicate?: boolean }) {
-    attributes = attributes?.length ? attributes.filter(attr => attr !== 'member').concat(['member']) : undefined
-    const ret = new Readable({ objectMode: true, highWaterMark: 100 }) as GenericReadable<LdapEntry<T>>
-    ret._read = () => { ret.resume() }
-    const seenDN = options?.deduplicate ? new Set<string>() : undefined
-    this.get(groupdn, { attributes: ['member'] }).then(async g => {
-      await this.getMemberRecur(ret, g, new Set([groupdn]), seenDN, attributes)
-      ret.push(null)
-    }).catch(e => ret.destroy(e))
+  getMemberStream<T = any> (groupdn: string, attributes?: SearchOptions['attributes'], options?: LdapMemberOptions & { deduplicate?: boolean }) {
+    return this.memberStream<T>(groupdn, {
+      ...options,
+      attributes,
+      seenDN: options?.deduplicate ? new Set() : undefined,
+      groupsExplored: new Set([groupdn]),
+      groupParents: options?.paths ? new Map() : undefined
+    })
+  }
+
+  protected memberStream<T> (groupdn: string, expansion: MemberExpansion) {
+    const { signal } = expansion
+    const attributes = expansion.attributes?.length ? Array.from(new Set([...expansion.attributes, ...this.groupAttributes])) : undefined
+    // workers wait here when the consumer is behind, reading or closing the stream lets them go
+    const waiting: (() => void)[] = []
+    const wake = () => { for (const resolve of waiting.splice(0)) resolve() }
+    const ret = new Readable({
+      objectMode: true,
+      highWaterMark: 100,
+      read: wake,
+      destroy: (err, callback) => {
+        wake()
+        callback(err)
+      }
+    }) as GenericReadable<LdapEntry<T>>
+    const onAbort = () => { ret.destroy(new LdapAbortError(signal!.reason)) }
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    const expandGroup = async (group: LdapEntry, path: string[], depth: number, enqueue: (group: LdapEntry, path: string[], depth: number) => void) => {
+      for await (const m of this.directMembers(group, attributes, signal)) {
+        if (ret.destroyed) return
+        if (this.isGroup(m)) {
+          // record every group that lists a nested group, even when it's already been explored
+          const ndn = normalizeDN(m.dn)
+          if (expansion.groupParents && !expansion.groupParents.has(ndn)) expansion.groupParents.set(ndn, new Set())
+          expansion.groupParents?.get(ndn)!.add(group.dn)
+          if (!expansion.groupsExplored.has(m.dn) && (expansion.maxDepth == null || depth < expansion.maxDepth)) {
+            expansion.groupsExplored.add(m.dn)
+            enqueue(m, [...path, m.dn], depth + 1)
+          }
+        } else if (!expansion.seenDN?.has(m.dn)) {
+          expansion.seenDN?.add(m.dn)
+          if (expansion.groupParents) m.paths = [path]
+          if (!ret.push(m)) await new Promise<void>(resolve => { waiting.push(resolve) })
+        }
+      }
+    }
+
+    const concurrency = Math.max(1, Math.min(expansion.concurrency ?? Math.ceil(this.poolSize / 2), this.poolSize))
+    this.get(groupdn, { attributes: this.groupAttributes, signal, cacheTtlMs: 0 }).then(async root => {
+      await new Promise<void>((resolve, reject) => {
+        const queue: [LdapEntry, string[], number][] = [[root, [root.dn], 0]]
+        let active = 0
+        const next = () => {
+          if (ret.destroyed || (!active && !queue.length)) {
+            resolve()
+            return
+          }
+          while (active < concurrency && queue.length) {
+            const [group, path, depth] = queue.shift()!
+            active++
+            expandGroup(group, path, depth, (...item) => {
+              queue.push(item)
+              next()
+            }).then(() => {
+              active--
+              next()
+            }, reject)
+          }
+        }
+        next()
+      })
+      if (!ret.destroyed) ret.push(null)
+    }).catch(e => ret.destroy(e)).finally(() => { signal?.removeEventListener('abort', onAbort) })
     return ret
   }
 
   /**
    * Return all non-group members of a group, recursively expanding any nested groups.
    *
-   * Each member will only be returned once even if they are in multiple nested groups.
+   * Each member will only be returned once even if they are in multiple nested groups. With the
+   * `paths` option, each member's `paths` holds every chain of groups that leads to it.
    */
-  async getMembers<T = any> (groupdn: string, attributes?: SearchOptions['attributes']) {
-    const strm = this.getMemberStream<T>(groupdn, attributes, { deduplicate: true })
+  async getMembers<T = any> (groupdn: string, attributes?: SearchOptions['attributes'], options?: LdapMemberOptions & LdapCachingOptions) {
+    if (options?.paths) return await this.getMembersWithPaths<T>(groupdn, attributes, options)
+    const ttlMs = this.cache ? options?.cacheTtlMs ?? this.cache.ttlMs : 0
+    const key = ttlMs ? 'members:' + JSON.stringify([groupdn, attributes, options?.maxDepth, this.authzId]) : ''
+    if (ttlMs) {
+      const cached = await this.cache!.get(key)
+      if (cached) return this.fromCache<T>(cached)
+    }
+    const groupsExplored = new Set([groupdn])
+    const strm = this.memberStream<T>(groupdn, { ...options, attributes, seenDN: new Set(), groupsExplored })
     const members: LdapEntry<T>[] = []
     for await (const m of strm) members.push(m)
+    // adding or removing a member modifies one of the groups, so depend on all of them
+    if (ttlMs) await this.cache!.set(key, members.map(toCache), [...groupsExplored, ...members.map(m => m.dn)], ttlMs)
     return members
   }
 
+  protected async getMembersWithPaths<T> (groupdn: string, attributes: SearchOptions['attributes'] | undefined, options: LdapMemberOptions) {
+    const groupParents = new Map<string, Set<string>>()
+    // without deduplication, a member comes back once for each group that lists it directly
+    const members = new Map<string, { entry: LdapEntry<T>, groups: Set<string> }>()
+    for await (const m of this.memberStream<T>(groupdn, { ...options, attributes, groupsExplored: new Set([groupdn]), groupParents })) {
+      const direct = m.paths![0][m.paths![0].length - 1]
+      const existing = members.get(m.dn)
+      if (existing) existing.groups.add(direct)
+      else members.set(m.dn, { entry: m, groups: new Set([direct]) })
+    }
+    // groups shared by several parents at several levels multiply the paths, so each group's
+    // chains are worked out once and there are never more than maxPaths of them
+    const maxPaths = options.maxPaths ?? 100
+    const memo = new Map<string, string[][]>()
+    const inProgress = new Set<string>()
+    const chains = (dn: string): string[][] => {
+      const ndn = normalizeDN(dn)
+      if (ndn === normalizeDN(groupdn)) return [[dn]]
+      if (memo.has(ndn)) return memo.get(ndn)!
+      // a group that contains one of its own ancestors would lead around in circles
+      if (inProgress.has(ndn)) return []
+      inProgress.add(ndn)
+      const ret: string[][] = []
+      for (const parent of groupParents.get(ndn) ?? []) {
+        for (const chain of chains(parent)) {
+          if (ret.length >= maxPaths) break
+          if (!chain.some(g => normalizeDN(g) === ndn)) ret.push([...chain, dn])
+        }
+      }
+      inProgress.delete(ndn)
+      memo.set(ndn, ret)
+      return ret
+    }
+    return Array.from(members.values()).map(({ entry, groups }) => {
+      entry.paths = Array.from(groups).flatMap(group => chains(group)).slice(0, maxPaths)
+      return entry
+    })
+  }
+
+  /**
+   * Return the nested groups of a group as a tree, without fetching any of the other members.
+   * A group that contains one of its own ancestors is listed with `cycle: true` and no groups.
+   */
+  async getGroupTree (groupdn: string, options?: LdapOperationOptions & LdapCachingOptions) {
+    const subgroupPromises = new Map<string, Promise<string[]>>()
+    const build = async (dn: string, ancestors: Set<string>): Promise<LdapGroupTreeNode> => {
+      const ndn = normalizeDN(dn)
+      if (ancestors.has(ndn)) return { dn, groups: [], cycle: true }
+      // a group reached along more than one path is only read once
+      if (!subgroupPromises.has(ndn)) subgroupPromises.set(ndn, this.subgroups(dn, options))
+      const inner = new Set([...ancestors, ndn])
+      return { dn, groups: await Promise.all((await subgroupPromises.get(ndn)!).map(async sg => await build(sg, inner))) }
+    }
+    return await build(groupdn, new Set())
+  }
+
+  /**
+   * Return the groups that an entry is a member of, including the groups those groups are in
+   * unless `recursive` is false. Each group is only returned once.
+   */
+  async getGroups<T = any> (dn: string, options?: LdapGetGroupsOptions) {
+    const groups: LdapEntry<T>[] = []
+    for await (const group of this.groupsRecur<T>(dn, options ?? {})) groups.push(group)
+    return groups
+  }
+
+  /**
+   * Like getGroups, but stream the groups as they are found.
+   */
+  getGroupStream<T = any> (dn: string, options?: LdapGetGroupsOptions) {
+    return Readable.from(this.groupsRecur<T>(dn, options ?? {}), { objectMode: true, highWaterMark: 100 }) as GenericReadable<LdapEntry<T>>
+  }
+
+  protected groupsMechanismPromise?: Promise<LdapGroupsMechanism>
+  protected async groupsMechanism () {
+    this.groupsMechanismPromise ??= this.getRootDSE()
+      .then(async rootDSE => {
+        if (rootDSE.supportedCapabilities.includes(activeDirectoryCapability)) return 'inChain'
+        return (await this.getSchema()).attributeType('memberOf') ? 'memberOf' : 'search'
+      })
+      .catch(() => 'search' as const)
+    return await this.groupsMechanismPromise
+  }
+
+  /**
+   * The longest naming context that contains the DN, or its dc= components when the RootDSE
+   * can't be read.
+   */
+  protected async namingContextFor (dn: string) {
+    const ndn = normalizeDN(dn)
+    const namingContexts = await this.getRootDSE().then(rootDSE => rootDSE.namingContexts, () => [] as string[])
+    const context = namingContexts.filter(nc => nc && (ndn === normalizeDN(nc) || ndn.endsWith(',' + normalizeDN(nc)))).sort((a, b) => b.length - a.length)[0]
+    return context ?? dn.split(/(?<!\\),/).filter(rdn => /^\s*dc=/i.test(rdn)).join(',')
+  }
+
+  protected async * groupsRecur<T> (dn: string, options: LdapGetGroupsOptions): AsyncGenerator<LdapEntry<T>> {
+    const { signal } = options
+    const recursive = options.recursive ?? true
+    const mechanism = options.mechanism ?? await this.groupsMechanism()
+    let attributes = options.attributes?.length ? options.attributes : undefined
+    if (mechanism === 'inChain') {
+      const base = options.base ?? await this.namingContextFor(dn)
+      const filter = recursive ? this.filter`(member:1.2.840.113556.1.4.1941:=${dn})` : this.filter`(member=${dn})`
+      yield * this.stream<T>(base, { scope: 'sub', filter, attributes, signal })
+      return
+    }
+    const groupsExplored = new Set([normalizeDN(dn)])
+    if (mechanism === 'memberOf') {
+      // memberOf is operational on OpenLDAP, so '*' alone would not return it
+      attributes = [...(attributes ?? ['*']).filter(attr => attr.toLocaleLowerCase() !== 'memberof'), 'memberOf']
+      let pending = (await this.get(dn, { attributes: ['memberOf'], signal, cacheTtlMs: 0 }))?.all('memberOf') ?? []
+      while (pending.length) {
+        const wanted = new Set(pending.map(normalizeDN).filter(ndn => !groupsExplored.has(ndn)))
+        pending = []
+        if (!wanted.size) break
+        for (const [basedn, filters] of Object.entries(batchOnBase(Array.from(wanted).map(searchForDN)))) {
+          for (const filter of filters) {
+            for await (const group of this.stream<T>(basedn, { scope: 'sub', filter, attributes, signal })) {
+              const ndn = normalizeDN(group.dn)
+              // the search may find other entries with the same RDN deeper in the tree
+              if (!wanted.has(ndn) || groupsExplored.has(ndn)) continue
+              groupsExplored.add(ndn)
+              if (recursive) pending.push(...group.all('memberOf'))
+              yield group
+            }
+          }
+        }
+      }
+      return
+    }
+    const base = options.base ?? await this.namingContextFor(dn)
+    // only people are listed by uid, so only the first level needs them
+    let uids = await this.uidsOf(dn, signal)
+    let pending = [dn]
+    while (pending.length) {
+      const found: string[] = []
+      for (const dns of batch(pending)) {
+        const filter = this.memberFilter(dns, uids)
+        for await (const group of this.stream<T>(base, { scope: 'sub', filter, attributes, signal })) {
+          const ndn = normalizeDN(group.dn)
+          if (groupsExplored.has(ndn)) continue
+          groupsExplored.add(ndn)
+          found.push(group.dn)
+          yield group
+        }
+      }
+      pending = recursive ? found : []
+      uids = []
+    }
+  }
+
+  /**
+   * Check whether an entry is a member of a group, including through nested groups unless
+   * `recursive` is false. Nested groups are found by walking up from the member, one level of
+   * the groups it is in at a time, until the group turns up, so the group is never expanded.
+   */
+  async isMember (memberdn: string, groupdn: string, options?: LdapIsMemberOptions) {
+    const signal = options?.signal
+    const recursive = options?.recursive ?? true
+    const inChain = recursive && (options?.mechanism ?? await this.groupsMechanism()) === 'inChain'
+    const uids = inChain ? [] : await this.uidsOf(memberdn, signal)
+    const filter = inChain ? this.filter`(member:1.2.840.113556.1.4.1941:=${memberdn})` : this.memberFilter([memberdn], uids)
+    const dynamicTypes = inChain ? [] : this.groupTypes.filter(t => t.valueType === 'url')
+    // when the group is dynamic, a nested group may be in it through one of its URLs
+    let urls: string[] = []
+    const isDirect = async () => {
+      if (!dynamicTypes.length) return (await this.search(groupdn, { scope: 'base', filter, attributes: ['1.1'], signal, cacheTtlMs: 0 })).length > 0
+      const [group] = await this.search(groupdn, { scope: 'base', filter: Filters.or(filter, ...dynamicTypes.map(t => Filters.eq('objectClass', t.objectClass))), attributes: ['objectClass', ...dynamicTypes.map(t => t.attribute)], signal, cacheTtlMs: 0 })
+      if (!group) return false
+      const types = this.groupTypesOf(group)
+      if (!types.some(t => t.valueType === 'url')) return true
+      urls = types.filter(t => t.valueType === 'url').flatMap(t => group.all(t.attribute))
+      for (const url of urls) {
+        if (await this.matchesLdapUrl(memberdn, url, signal)) return true
+      }
+      // the group was found for its object class, it may also have static members
+      return types.some(t => t.valueType !== 'url') && (await this.search(groupdn, { scope: 'base', filter, attributes: ['1.1'], signal, cacheTtlMs: 0 })).length > 0
+    }
+    if (await isDirect()) return true
+    if (!recursive || inChain) return false
+    const target = normalizeDN(groupdn)
+    const base = await this.namingContextFor(groupdn)
+    const groupsExplored = new Set([normalizeDN(memberdn)])
+    let pending = [memberdn]
+    let pendingUids = uids
+    while (pending.length) {
+      const found: string[] = []
+      for (const dns of batch(pending)) {
+        const groups = await this.search(base, { scope: 'sub', filter: this.memberFilter(dns, pendingUids), attributes: ['1.1'], signal, cacheTtlMs: options?.cacheTtlMs })
+        for (const group of groups) {
+          const ndn = normalizeDN(group.dn)
+          if (ndn === target) return true
+          if (groupsExplored.has(ndn)) continue
+          groupsExplored.add(ndn)
+          for (const url of urls) {
+            if (await this.matchesLdapUrl(group.dn, url, signal)) return true
+          }
+          found.push(group.dn)
+        }
+      }
+      pending = found
+      // only people are listed by uid, so only the first level needs them
+      pendingUids = []
+    }
+    return false
+  }
+
+  /**
+   * Whether an entry would be found by the search in an LDAP URL, like a dynamic group's memberURL.
+   */
+  protected async matchesLdapUrl (dn: string, url: string, signal?: AbortSignal) {
+    const search = parseLdapUrl(url)
+    const [ndn, nbase] = [normalizeDN(dn), normalizeDN(search.base)]
+    const parent = ndn.split(/(?<!\\),/).slice(1).join(',')
+    if (search.scope === 'base' && ndn !== nbase) return false
+    if (search.scope === 'one' && parent !== nbase) return false
+    if (search.scope === 'sub' && nbase && ndn !== nbase && !ndn.endsWith(',' + nbase)) return false
+    return (await this.search(dn, { scope: 'base', filter: search.filter, attributes: ['1.1'], signal, cacheTtlMs: 0 })).length > 0
+  }
+
+  /**
+   * The DNs of the groups that are direct members of a group. Only groups are fetched, never
+   * the other members.
+   */
+  protected async subgroups (groupdn: string, options?: LdapOperationOptions & LdapCachingOptions) {
+    const ttlMs = this.cache ? options?.cacheTtlMs ?? this.cache.ttlMs : 0
+    const key = ttlMs ? 'subgroups:' + JSON.stringify([normalizeDN(groupdn), this.authzId]) : ''
+    if (ttlMs) {
+      const cached = await this.cache!.get(key)
+      if (cached) return cached.map(c => c.dn)
+    }
+    const group = await this.get(groupdn, { attributes: this.groupAttributes, signal: options?.signal, cacheTtlMs: 0 })
+    const subgroups: string[] = []
+    for await (const m of this.directMembers(group, ['1.1'], options?.signal, true)) subgroups.push(m.dn)
+    // adding or removing a member modifies the group, which drops this from the cache
+    if (ttlMs) await this.cache!.set(key, subgroups.map(dn => ({ dn, attributes: {} })), [groupdn], ttlMs)
+    return subgroups
+  }
+
+  /**
+   * Declare an object class, where its entries live, and how their attributes map to typed
+   * fields, and get back a repository that finds, creates, updates and deletes plain objects.
+   */
+  defineModel<const F extends LdapModelFields> (definition: LdapModelDefinition<F>) {
+    return new LdapModel<F>(this, definition)
+  }
+
   protected templateLiteralEscape (regex: RegExp, replacements: any, strings: TemplateStringsArray, values: (string | number)[]) {
     let safe = ''
     for (let i = 0; i < strings.length; i++) {
@@ -575,16 +2467,41 @@ export default class Ldap {
   }
 }
 
-const binaryAttributes = ['photo', 'audio', 'jpegphoto', 'jpegPhoto', 'thumbnailphoto', 'thumbnailPhoto', 'thumbnaillogo', 'thumbnailLogo']
-const WINDOWS_FILETIME_EPOCH_DIFF = BigInt('116444736000000000')
-const FILETIME_TO_MS = BigInt(10000)
-const GENERALIZED_TIME_RE = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(?:\.(\d+))?(Z|[+-]\d{4})$/
+const defaultBinaryAttributes = ['photo', 'audio', 'jpegPhoto', 'thumbnailPhoto', 'thumbnailLogo', 'userCertificate', 'cACertificate', 'userSMIMECertificate', 'userPKCS12',
+  'objectGUID', 'objectSid', 'sIDHistory', 'tokenGroups', 'mS-DS-ConsistencyGuid', 'msExchMailboxGuid', 'msExchMasterAccountSid', 'logonHours', 'nTSecurityDescriptor']
+// Octet String, Certificate, Certificate List, Certificate Pair, JPEG, Fax, Audio, Binary, Supported Algorithm
+const binarySyntaxes = new Set(['40', '8', '9', '10', '28', '23', '4', '5', '49'].map(n => `1.3.6.1.4.1.1466.115.121.1.${n}`))
+
+/**
+ * ldapts checks each attribute type against explicitBufferAttributes with an exact includes(),
+ * but attribute names are case insensitive and may carry options like ;binary, so we give it an
+ * array whose includes() compares the way LDAP does.
+ */
+function binaryAttributeList (names: string[]) {
+  const lc = new Set(names.map(n => n.toLocaleLowerCase()))
+  const list = Array.from(lc)
+  list.includes = (type: string) => {
+    const [name, ...attrOptions] = type.toLocaleLowerCase().split(';')
+    return lc.has(name) || attrOptions.includes('binary')
+  }
+  return list
+}
 
 export class LdapEntry<T = any> {
   attrs = new Map<string, { type: string, values: string[] | Buffer<ArrayBufferLike>[] }>()
   dn: string
-  constructor (data: Entry, protected client: Ldap, transformEntries?: (entry: LdapEntry) => void) {
+  /**
+   * The URL of the server that returned this entry.
+   */
+  server?: string
+  /**
+   * Set by getMembers and getMemberStream with the `paths` option: chains of group DNs, from the
+   * group that was expanded down to the group that lists this entry directly.
+   */
+  paths?: string[][]
+  constructor (data: Entry, protected client: Ldap, transformEntries?: (entry: LdapEntry) => void, server?: string) {
     this.dn = data.dn
+    this.server = server
     for (const [key, value] of Object.entries(data)) {
       if (value.length === 0) continue
       const attrWithoutOptions = key.split(';', 2)[0].toLocaleLowerCase()
@@ -594,10 +2511,92 @@ export class LdapEntry<T = any> {
       })
     }
     transformEntries?.(this)
+    this.original = new Map(this.attrs)
+  }
+
+  /**
+   * The attributes as they were loaded, to compare against for changes() and save(). Anything
+   * set by transformEntries counts as loaded.
+   */
+  protected original: Map<string, { type: string, values: string[] | Buffer<ArrayBufferLike>[] }>
+
+  /**
+   * Replace all the values of an attribute on this object. Call save() to send it to the server.
+   */
+  set (attr: string, value: AttributeInput) {
+    this.attrs.set(attr.toLocaleLowerCase(), { type: attr, values: this.client.encode(attr, value) })
+  }
+
+  /**
+   * Add values to an attribute on this object, ignoring any it already has. Call save() to send
+   * it to the server.
+   */
+  addValue (attr: string, value: AttributeInput) {
+    const current = this.attrs.get(attr.toLocaleLowerCase())
+    const existing = new Set(current?.values.map(valueKey))
+    const added = this.client.encode(attr, value).filter(v => !existing.has(valueKey(v)))
+    this.attrs.set(attr.toLocaleLowerCase(), { type: current?.type ?? attr, values: [...(current?.values ?? []), ...added] as string[] | Buffer[] })
+  }
+
+  /**
+   * Remove values from an attribute on this object. Call save() to send it to the server.
+   */
+  removeValue (attr: string, value: AttributeInput) {
+    const current = this.attrs.get(attr.toLocaleLowerCase())
+    if (!current) return
+    const removed = new Set((this.client.encode(attr, value) as (string | Buffer)[]).map(valueKey))
+    this.attrs.set(attr.toLocaleLowerCase(), { type: current.type, values: current.values.filter(v => !removed.has(valueKey(v))) as string[] | Buffer[] })
+  }
+
+  /**
+   * The modifications that would make the server match this object. An attribute that lost all
+   * its old values is replaced, otherwise only the values that changed are added and deleted.
+   */
+  changes (): LdapChange[] {
+    const changes: LdapChange[] = []
+    for (const key of new Set([...this.original.keys(), ...this.attrs.keys()])) {
+      const before = this.original.get(key)
+      const after = this.attrs.get(key)
+      const beforeValues: (string | Buffer)[] = before?.values ?? []
+      const afterValues: (string | Buffer)[] = after?.values ?? []
+      // options like ;binary belong in the request, ;range does not
+      const type = (after ?? before)!.type.replace(/;range=[^;]*/i, '')
+      if (!afterValues.length) {
+        if (beforeValues.length) changes.push({ operation: 'delete', modification: { type, values: [] } })
+        continue
+      }
+      const beforeKeys = new Set(beforeValues.map(valueKey))
+      const afterKeys = new Set(afterValues.map(valueKey))
+      const added = afterValues.filter(v => !beforeKeys.has(valueKey(v)))
+      const removed = beforeValues.filter(v => !afterKeys.has(valueKey(v)))
+      if (!added.length && !removed.length) continue
+      // we only loaded part of a ranged attribute, so replacing it would lose the rest
+      const ranged = before?.type.toLocaleLowerCase().includes(';range=')
+      if (!ranged && removed.length === beforeValues.length) {
+        changes.push({ operation: 'replace', modification: { type, values: afterValues as string[] | Buffer[] } })
+      } else {
+        if (removed.length) changes.push({ operation: 'delete', modification: { type, values: removed as string[] | Buffer[] } })
+        if (added.length) changes.push({ operation: 'add', modification: { type, values: added as string[] | Buffer[] } })
+      }
+    }
+    return changes
   }
 
-  set (attr: string, value: ValidAttributeInput | ValidAttributeInput[] | undefined) {
-    this.attrs.set(attr.toLocaleLowerCase(), { type: attr, values: valsToStringOrBuffer(value) })
+  /**
+   * Send changes() to the server in one modify, then reload the attributes this object has.
+   * Resolves false without contacting the server when nothing changed. If the entry can't be
+   * read back, e.g. because we may write to it but not read it, the local values are kept.
+   */
+  async save (options?: LdapWriteOptions) {
+    const changes = this.changes()
+    if (!changes.length) return false
+    await this.client.modify(this.dn, changes, options)
+    const attributes = Array.from(new Set([...this.original.values(), ...this.attrs.values()].map(a => a.type.split(';')[0])))
+    // the modify succeeded, so failing to read the entry back is no reason to throw
+    const fresh = await this.client.get(this.dn, { attributes, signal: options?.signal, cacheTtlMs: 0 }).catch(() => undefined)
+    if (fresh) this.attrs = fresh.attrs
+    this.original = new Map(this.attrs)
+    return true
   }
 
   get (attr: string) {
@@ -607,8 +2606,8 @@ export class LdapEntry<T = any> {
   protected static date (val: string, typeHint?: 'ldap' | 'unix' | 'millis' | 'iso' | 'windows') {
     // automatically detect date in the following formats:
     // YYYYMMDDHHmmSSZ, ISO8601, Unix Timestamp (seconds or milliseconds), or Windows FILETIME”
-    const genMatch = typeHint && typeHint !== 'ldap' ? undefined : val.match(GENERALIZED_TIME_RE)
-    typeHint ??= genMatch ? 'ldap'
+    const genDate = typeHint && typeHint !== 'ldap' ? undefined : parseGeneralizedTime(val)
+    typeHint ??= genDate ? 'ldap'
       : (/^\d+$/.test(val))
         // a 12 digit number might be epoch millis 1973-2001, or epoch seconds 5138+;
         // 1973-2001 is more likely, but neither is particularly likely and in this case
@@ -624,25 +2623,7 @@ export class LdapEntry<T = any> {
 
     switch (typeHint) {
       case 'ldap':
-        if (!genMatch) return undefined
-        const [, ys, mons, ds, hs, mins, secs, frac, zone] = genMatch
-        const year = Number(ys)
-        const month = Number(mons) - 1
-        const day = Number(ds)
-        const hour = Number(hs)
-        const minute = Number(mins)
-        const second = Number(secs)
-        const millisecond = Number(frac?.slice(0, 3) ?? '0')
-        const utcTimestamp = Date.UTC(year, month, day, hour, minute, second, millisecond)
-        if (zone && zone !== 'Z') {
-          const sign = zone[0] === '-' ? -1 : 1
-          const offsetHours = Number(zone.slice(1, 3))
-          const offsetMinutes = Number(zone.slice(3, 5))
-          const offsetTotalMinutes = offsetHours * 60 + offsetMinutes
-          const offsetTotalMilliseconds = offsetTotalMinutes * 60 * 1000 * sign
-          return new Date(utcTimestamp - offsetTotalMilliseconds)
-        }
-        return new Date(utcTimestamp)
+        return genDate
 
       case 'millis':
         return new Date(Number(val))
@@ -650,11 +2631,8 @@ export class LdapEntry<T = any> {
       case 'unix':
         return new Date(Number(val) * 1000)
 
-      case 'windows': {
-        const n = BigInt(val)
-        const msSinceEpoch = (n - WINDOWS_FILETIME_EPOCH_DIFF) / FILETIME_TO_MS
-        return new Date(Number(msSinceEpoch))
-      }
+      case 'windows':
+        return parseWindowsFileTime(val)
       default: // iso8601
         const d = new Date(val)
         if (isNaN(d.getTime())) return undefined
@@ -671,6 +2649,23 @@ export class LdapEntry<T = any> {
     return this.dates(attr, typeHint)[0] as Date | undefined
   }
 
+  /**
+   * All values of an attribute, decoded by its codec (see the `codecs` config). Without a
+   * codec you get the same strings as all(), or Buffers for binary attributes.
+   */
+  values<V = any> (attr: string): V[] {
+    const codec = this.client.codecs.get(attr.toLocaleLowerCase())
+    const values = this.attrs.get(attr.toLocaleLowerCase())?.values ?? []
+    return codec ? values.map(v => codec.decode(v)) : values as V[]
+  }
+
+  /**
+   * The first value of an attribute, decoded by its codec.
+   */
+  value<V = any> (attr: string) {
+    return this.values<V>(attr)[0] as V | undefined
+  }
+
   one (attr: string) {
     return this.get(attr)
   }
@@ -715,7 +2710,7 @@ export class LdapEntry<T = any> {
     for (const attr of this.attrs.values()) {
       const baseAttr = attr.type.split(';', 2)[0]
       const lcAttr = baseAttr.toLocaleLowerCase()
-      const resolvedAttr = (this.client as any).preserveAttributeCase ? baseAttr : lcAttr
+      const resolvedAttr = this.client.preserveAttributeCase ? baseAttr : lcAttr
       const values = this.attrs.get(lcAttr)?.values
       if (values?.length) {
         if (this.isBinary(baseAttr)) {
@@ -0,0 +1,175 @@
+import type Ldap from '.'
+import type { LdapEvents, LdapOperationType } from '.'
+
+export interface PrometheusExporterOptions {
+  /**
+   * Prepended to every metric name. Default is 'ldap_'.
+   */
+  prefix?: string
+  /**
+   * Histogram buckets in seconds, for both operation durations and pool wait times.
+   */
+  buckets?: number[]
+  /**
+   * Extra labels to add to every metric, e.g. { pool: 'primary' } when you have more than one pool.
+   */
+  labels?: Record<string, string>
+}
+
+const defaultBuckets = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+
+class Histogram {
+  counts: number[]
+  sum = 0
+  count = 0
+  constructor (public buckets: number[]) {
+    this.counts = buckets.map(() => 0)
+  }
+
+  observe (seconds: number) {
+    this.sum += seconds
+    this.count++
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (seconds <= this.buckets[i]) this.counts[i]++
+    }
+  }
+}
+
+function escapeLabel (val: string) {
+  return val.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+}
+
+/**
+ * Collects counters and histograms from the events of an Ldap pool and renders them in the
+ * Prometheus text exposition format, ready to be served from a /metrics endpoint.
+ */
+export class PrometheusExporter {
+  protected prefix: string
+  protected buckets: number[]
+  protected labels: Record<string, string>
+  protected operations = new Map<LdapOperationType, { success: number, error: number, duration: Histogram }>()
+  protected connects = new Map<string, number>()
+  protected bindFailures = new Map<string, number>()
+  protected idleEvicted = 0
+  protected queued = 0
+  protected acquireWait: Histogram
+  protected listeners: { [K in keyof LdapEvents]?: (...args: LdapEvents[K]) => void } = {}
+
+  constructor (protected ldap: Ldap, options: PrometheusExporterOptions = {}) {
+    this.prefix = options.prefix ?? 'ldap_'
+    this.buckets = [...(options.buckets ?? defaultBuckets)].sort((a, b) => a - b)
+    this.labels = options.labels ?? {}
+    this.acquireWait = new Histogram(this.buckets)
+    this.listeners = {
+      operation: ({ operation, durationMs, error }) => {
+        let op = this.operations.get(operation)
+        if (!op) {
+          op = { success: 0, error: 0, duration: new Histogram(this.buckets) }
+          this.operations.set(operation, op)
+        }
+        if (error) op.error++
+        else op.success++
+        op.duration.observe(durationMs / 1000)
+      },
+      connect: ({ server }) => { this.connects.set(server, (this.connects.get(server) ?? 0) + 1) },
+      bindFailure: ({ server }) => { this.bindFailures.set(server, (this.bindFailures.get(server) ?? 0) + 1) },
+      idleEvicted: () => { this.idleEvicted++ },
+      queued: () => { this.queued++ },
+      acquire: ({ waitMs }) => { this.acquireWait.observe(waitMs / 1000) }
+    }
+    for (const event of this.events()) {
+      const listener = this.listeners[event]
+      if (listener) ldap.on(event, listener)
+    }
+  }
+
+  /**
+   * Stop collecting metrics from the pool.
+   */
+  detach () {
+    for (const event of this.events()) {
+      const listener = this.listeners[event]
+      if (listener) this.ldap.off(event, listener)
+    }
+  }
+
+  protected events () {
+    return Object.keys(this.listeners) as Array<keyof LdapEvents>
+  }
+
+  protected labelString (labels: Record<string, string | number> = {}) {
+    const all = Object.entries({ ...this.labels, ...labels })
+    if (!all.length) return ''
+    return `{${all.map(([k, v]) => `${k}="${escapeLabel(String(v))}"`).join(',')}}`
+  }
+
+  protected histogramLines (name: string, histogram: Histogram, labels: Record<string, string> = {}) {
+    const lines: string[] = []
+    for (let i = 0; i < histogram.buckets.length; i++) {
+      lines.push(`${name}_bucket${this.labelString({ ...labels, le: histogram.buckets[i] })} ${histogram.counts[i]}`)
+    }
+    lines.push(`${name}_bucket${this.labelString({ ...labels, le: '+Inf' })} ${histogram.count}`)
+    lines.push(`${name}_sum${this.labelString(labels)} ${histogram.sum}`)
+    lines.push(`${name}_count${this.labelString(labels)} ${histogram.count}`)
+    return lines
+  }
+
+  /**
+   * Render all metrics in the Prometheus text exposition format.
+   */
+  metrics () {
+    const p = this.prefix
+    const stats = this.ldap.stats()
+    const lines: string[] = []
+
+    lines.push(`# HELP ${p}operations_total LDAP operations completed, by operation type and outcome.`)
+    lines.push(`# TYPE ${p}operations_total counter`)
+    for (const [operation, op] of this.operations) {
+      lines.push(`${p}operations_total${this.labelString({ operation, status: 'success' })} ${op.success}`)
+      lines.push(`${p}operations_total${this.labelString({ operation, status: 'error' })} ${op.error}`)
+    }
+
+    lines.push(`# HELP ${p}operation_duration_seconds Time taken by LDAP operations, by operation type.`)
+    lines.push(`# TYPE ${p}operation_duration_seconds histogram`)
+    for (const [operation, op] of this.operations) lines.push(...this.histogramLines(`${p}operation_duration_seconds`, op.duration, { operation }))
+
+    lines.push(`# HELP ${p}pool_acquire_wait_seconds Time spent waiting for a pooled connection.`)
+    lines.push(`# TYPE ${p}pool_acquire_wait_seconds histogram`)
+    lines.push(...this.histogramLines(`${p}pool_acquire_wait_seconds`, this.acquireWait))
+
+    lines.push(`# HELP ${p}connects_total Pooled connections successfully opened and bound, by server.`)
+    lines.push(`# TYPE ${p}connects_total counter`)
+    for (const [server, count] of this.connects) lines.push(`${p}connects_total${this.labelString({ server })} ${count}`)
+
+    lines.push(`# HELP ${p}bind_failures_total Failures to connect or bind a pooled connection, by server.`)
+    lines.push(`# TYPE ${p}bind_failures_total counter`)
+    for (const [server, count] of this.bindFailures) lines.push(`${p}bind_failures_total${this.labelString({ server })} ${count}`)
+
+    lines.push(`# HELP ${p}pool_queued_total Requests that had to wait for a pooled connection.`)
+    lines.push(`# TYPE ${p}pool_queued_total counter`)
+    lines.push(`${p}pool_queued_total${this.labelString()} ${this.queued}`)
+
+    lines.push(`# HELP ${p}pool_idle_evictions_total Pooled connections closed for being idle.`)
+    lines.push(`# TYPE ${p}pool_idle_evictions_total counter`)
+    lines.push(`${p}pool_idle_evictions_total${this.labelString()} ${this.idleEvicted}`)
+
+    lines.push(`# HELP ${p}pool_size Maximum number of pooled connections.`)
+    lines.push(`# TYPE ${p}pool_size gauge`)
+    lines.push(`${p}pool_size${this.labelString()} ${stats.poolSize}`)
+
+    lines.push(`# HELP ${p}pool_connections Pooled connections, by state.`)
+    lines.push(`# TYPE ${p}pool_connections gauge`)
+    lines.push(`${p}pool_connections${this.labelString({ state: 'busy' })} ${stats.busy}`)
+    lines.push(`${p}pool_connections${this.labelString({ state: 'idle' })} ${stats.idle}`)
+
+    lines.push(`# HELP ${p}pool_queue_length Requests currently waiting for a pooled connection.`)
+    lines.push(`# TYPE ${p}pool_queue_length gauge`)
+    lines.push(`${p}pool_queue_length${this.labelString()} ${stats.queued}`)
+
+    lines.push(`# HELP ${p}server_up Whether each server is currently considered healthy.`)
+    lines.push(`# TYPE ${p}server_up gauge`)
+    for (const server of stats.servers) lines.push(`${p}server_up${this.labelString({ server: server.url })} ${server.healthy ? 1 : 0}`)
+
+    return lines.join('\n') + '\n'
+  }
+}
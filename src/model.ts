@@ -0,0 +1,200 @@
+import { type Filter, NoSuchObjectError, type SearchOptions } from 'ldapts'
+import type { LdapCodec } from './codecs'
+import { type FilterInput, Filters } from './filter'
+import type Ldap from '.'
+import type { LdapEntry, LdapOperationOptions, LdapWriteOptions } from '.'
+
+export interface LdapFieldTypes {
+  string: string
+  number: number
+  boolean: boolean
+  date: Date
+  buffer: Buffer
+}
+
+export interface LdapFieldDefinition {
+  /**
+   * The LDAP attribute, default is the name of the field.
+   */
+  attribute?: string
+  /**
+   * Default is 'string'. Pass a codec for anything else, e.g. LdapCodecs.guid.
+   */
+  type?: keyof LdapFieldTypes | LdapCodec
+  /**
+   * Map all of the attribute's values to an array instead of only the first.
+   */
+  multiple?: boolean
+  /**
+   * The field is never undefined, and create() requires it.
+   */
+  required?: boolean
+}
+
+type LdapFieldBase<F extends LdapFieldDefinition> = F['type'] extends LdapCodec<infer V>
+  ? V
+  : F['type'] extends keyof LdapFieldTypes ? LdapFieldTypes[F['type']] : string
+
+export type LdapFieldValue<F extends LdapFieldDefinition> = F['multiple'] extends true
+  ? LdapFieldBase<F>[]
+  : F['required'] extends true ? LdapFieldBase<F> : LdapFieldBase<F> | undefined
+
+export type LdapModelFields = Record<string, LdapFieldDefinition>
+
+/**
+ * What the repository returns: the DN plus every field.
+ */
+export type LdapModelObject<F extends LdapModelFields> = { dn: string } & { -readonly [P in keyof F]: LdapFieldValue<F[P]> }
+
+/**
+ * What create() accepts: required fields plus any of the others.
+ */
+export type LdapModelInput<F extends LdapModelFields> =
+  { -readonly [P in keyof F as F[P] extends { required: true } ? P : never]: LdapFieldValue<F[P]> } &
+  { -readonly [P in keyof F as F[P] extends { required: true } ? never : P]?: LdapFieldValue<F[P]> }
+
+export interface LdapModelDefinition<F extends LdapModelFields> {
+  /**
+   * Entries must have all of these object classes to be found, and create() adds them all.
+   */
+  objectClass: string | readonly string[]
+  /**
+   * Where entries are searched for and created.
+   */
+  base: string
+  /**
+   * The field that forms the RDN of new entries, e.g. a field mapped to uid or cn.
+   */
+  rdn: keyof F & string
+  fields: F
+  /**
+   * Default is 'sub'.
+   */
+  scope?: SearchOptions['scope']
+}
+
+export interface LdapModelFindOptions extends LdapOperationOptions {
+  sizeLimit?: number
+}
+
+export class LdapModel<F extends LdapModelFields> {
+  protected objectClasses: string[]
+  protected fields: [string, LdapFieldDefinition & { attribute: string }][]
+  protected rdnAttribute: string
+
+  constructor (protected client: Ldap, protected definition: LdapModelDefinition<F>) {
+    this.objectClasses = Array.isArray(definition.objectClass) ? [...definition.objectClass] : [definition.objectClass as string]
+    this.fields = Object.entries(definition.fields).map(([name, field]) => [name, { ...field, attribute: field.attribute ?? name }])
+    const rdnField = this.fields.find(([name]) => name === definition.rdn)
+    if (!rdnField) throw new Error(`The rdn of a model must be one of its fields, ${definition.rdn} is not.`)
+    this.rdnAttribute = rdnField[1].attribute
+  }
+
+  protected get attributes () {
+    return this.fields.map(([, field]) => field.attribute)
+  }
+
+  protected filter (filter?: FilterInput): Filter {
+    return Filters.and(...this.objectClasses.map(oc => Filters.eq('objectClass', oc)), ...(filter ? [filter] : []))
+  }
+
+  protected toObject (entry: LdapEntry) {
+    const obj: Record<string, unknown> = { dn: entry.dn }
+    for (const [name, field] of this.fields) {
+      const values = this.decode(entry, field)
+      obj[name] = field.multiple ? values : values[0]
+    }
+    return obj as LdapModelObject<F>
+  }
+
+  protected decode (entry: LdapEntry, field: LdapFieldDefinition & { attribute: string }): unknown[] {
+    const type = field.type ?? 'string'
+    if (typeof type !== 'string') return entry.attrs.get(field.attribute.toLocaleLowerCase())?.values.map(v => type.decode(v)) ?? []
+    if (type === 'number') return entry.all(field.attribute).map(Number)
+    if (type === 'boolean') return entry.all(field.attribute).map(v => v.toUpperCase() === 'TRUE')
+    if (type === 'date') return entry.dates(field.attribute)
+    if (type === 'buffer') return entry.buffers(field.attribute)
+    return entry.all(field.attribute)
+  }
+
+  protected toAttributes (obj: Record<string, any>) {
+    const attributes: Record<string, any> = {}
+    for (const [name, field] of this.fields) {
+      if (!(name in obj)) continue
+      const value = obj[name]
+      // the client encodes dates, numbers and booleans, custom codecs are ours to apply
+      attributes[field.attribute] = typeof field.type === 'object' && value != null
+        ? (Array.isArray(value) ? value : [value]).map(v => (field.type as LdapCodec).encode(v))
+        : value
+    }
+    return attributes
+  }
+
+  /**
+   * Search beneath the model's base for entries with its object classes, optionally narrowed
+   * by another filter.
+   */
+  async find (filter?: FilterInput, options?: LdapModelFindOptions) {
+    const entries = await this.client.search(this.definition.base, {
+      scope: this.definition.scope ?? 'sub',
+      filter: this.filter(filter),
+      attributes: this.attributes,
+      sizeLimit: options?.sizeLimit,
+      signal: options?.signal
+    })
+    return entries.map(entry => this.toObject(entry))
+  }
+
+  async findOne (filter?: FilterInput, options?: LdapOperationOptions) {
+    return (await this.find(filter, { ...options, sizeLimit: 1 }))[0] as LdapModelObject<F> | undefined
+  }
+
+  /**
+   * Undefined when the entry doesn't exist or doesn't have the model's object classes.
+   */
+  async findByDn (dn: string, options?: LdapOperationOptions) {
+    try {
+      const entry = await this.client.get(dn, { filter: this.filter(), attributes: this.attributes, signal: options?.signal })
+      return entry ? this.toObject(entry) : undefined
+    } catch (e: any) {
+      if (e instanceof NoSuchObjectError) return undefined
+      throw e
+    }
+  }
+
+  /**
+   * Add a new entry beneath the model's base, named by its rdn field.
+   */
+  async create (obj: LdapModelInput<F>, options?: LdapWriteOptions) {
+    const rdnValue = (obj as Record<string, any>)[this.definition.rdn]
+    if (rdnValue == null || (Array.isArray(rdnValue) && !rdnValue.length)) throw new Error(`Cannot create an entry without a value for ${this.definition.rdn}.`)
+    const dn = `${this.rdnAttribute}=${this.client.dn`${String(Array.isArray(rdnValue) ? rdnValue[0] : rdnValue)}`},${this.definition.base}`
+    const attributes = Object.fromEntries(Object.entries(this.toAttributes(obj)).filter(([, value]) => value != null && !(Array.isArray(value) && !value.length)))
+    await this.client.add(dn, { objectClass: this.objectClasses, ...attributes }, options)
+    return { ...obj, dn } as unknown as LdapModelObject<F>
+  }
+
+  /**
+   * Replace the given fields and return the entry as it is afterward. Setting a field to undefined
+   * removes the attribute. Changing the rdn field renames the entry.
+   */
+  async update (dn: string, changes: Partial<LdapModelInput<F>>, options?: LdapWriteOptions) {
+    const { [this.definition.rdn]: rdnValue, ...rest } = changes as Record<string, any>
+    if (rdnValue != null) {
+      const newRdn = `${this.rdnAttribute}=${this.client.dn`${String(Array.isArray(rdnValue) ? rdnValue[0] : rdnValue)}`}`
+      if (newRdn.toLocaleLowerCase() !== dn.split(/(?<!\\),/)[0].toLocaleLowerCase()) {
+        await this.client.modifyDN(dn, newRdn, options)
+        dn = [newRdn, ...dn.split(/(?<!\\),/).slice(1)].join(',')
+      }
+    }
+    const attributes = this.toAttributes(rest)
+    if (Object.keys(attributes).length) await this.client.setAttributes(dn, attributes, options)
+    const updated = await this.findByDn(dn, options)
+    if (!updated) throw new NoSuchObjectError(`${dn} no longer matches the model after updating it.`)
+    return updated
+  }
+
+  async delete (dn: string, options?: LdapOperationOptions) {
+    return await this.client.remove(dn, options)
+  }
+}
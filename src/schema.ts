@@ -0,0 +1,299 @@
+import type { LdapEntry } from '.'
+
+/**
+ * What the server says about itself. Any attribute not given its own property here is still
+ * available from `entry`.
+ */
+export interface LdapRootDSE {
+  namingContexts: string[]
+  /**
+   * Active Directory only.
+   */
+  defaultNamingContext?: string
+  /**
+   * The DN of the entry that holds the schema.
+   */
+  subschemaSubentry?: string
+  supportedControl: string[]
+  supportedExtension: string[]
+  supportedFeatures: string[]
+  supportedSASLMechanisms: string[]
+  supportedLDAPVersion: number[]
+  /**
+   * Active Directory only.
+   */
+  supportedCapabilities: string[]
+  vendorName?: string
+  vendorVersion?: string
+  entry: LdapEntry
+}
+
+export function parseRootDSE (entry: LdapEntry): LdapRootDSE {
+  return {
+    namingContexts: entry.all('namingContexts'),
+    defaultNamingContext: entry.get('defaultNamingContext'),
+    subschemaSubentry: entry.get('subschemaSubentry'),
+    supportedControl: entry.all('supportedControl'),
+    supportedExtension: entry.all('supportedExtension'),
+    supportedFeatures: entry.all('supportedFeatures'),
+    supportedSASLMechanisms: entry.all('supportedSASLMechanisms'),
+    supportedLDAPVersion: entry.all('supportedLDAPVersion').map(Number),
+    supportedCapabilities: entry.all('supportedCapabilities'),
+    vendorName: entry.get('vendorName'),
+    vendorVersion: entry.get('vendorVersion'),
+    entry
+  }
+}
+
+export const rootDSEAttributes = ['*', 'namingContexts', 'defaultNamingContext', 'subschemaSubentry', 'supportedControl', 'supportedExtension', 'supportedFeatures', 'supportedSASLMechanisms', 'supportedLDAPVersion', 'supportedCapabilities', 'vendorName', 'vendorVersion']
+
+interface LdapSchemaElement {
+  oid: string
+  /**
+   * Every name the element goes by. Empty for syntaxes, which only have an OID.
+   */
+  names: string[]
+  /**
+   * The first of `names`, or the OID when there are none.
+   */
+  name: string
+  description?: string
+  obsolete: boolean
+  /**
+   * X- extensions, e.g. X-ORIGIN.
+   */
+  extensions: Record<string, string[]>
+}
+
+export interface LdapAttributeType extends LdapSchemaElement {
+  /**
+   * The name or OID of the attribute type this one is derived from.
+   */
+  sup?: string
+  superior?: LdapAttributeType
+  /**
+   * Matching rules and syntax are inherited from `superior` when not given directly.
+   */
+  equality?: string
+  ordering?: string
+  substr?: string
+  syntax?: string
+  /**
+   * The suggested maximum length, from e.g. 1.3.6.1.4.1.1466.115.121.1.15{256}.
+   */
+  syntaxLength?: number
+  singleValue: boolean
+  collective: boolean
+  noUserModification: boolean
+  usage: 'userApplications' | 'directoryOperation' | 'distributedOperation' | 'dSAOperation'
+}
+
+export interface LdapObjectClass extends LdapSchemaElement {
+  /**
+   * Names or OIDs of the classes this one is derived from.
+   */
+  sup: string[]
+  superiors: LdapObjectClass[]
+  kind: 'abstract' | 'structural' | 'auxiliary'
+  /**
+   * Attributes required or allowed by this class itself.
+   */
+  must: string[]
+  may: string[]
+  /**
+   * Attributes required or allowed by this class and every class it is derived from.
+   */
+  allMust: string[]
+  allMay: string[]
+}
+
+export interface LdapSyntax {
+  oid: string
+  description?: string
+  extensions: Record<string, string[]>
+}
+
+export interface LdapMatchingRule extends LdapSchemaElement {
+  syntax: string
+}
+
+const flags = new Set(['OBSOLETE', 'SINGLE-VALUE', 'COLLECTIVE', 'NO-USER-MODIFICATION', 'ABSTRACT', 'STRUCTURAL', 'AUXILIARY'])
+
+function tokenize (description: string) {
+  const tokens: { value: string, quoted: boolean }[] = []
+  const re = /\s*(?:'((?:[^'\\]|\\.)*)'|([()$])|([^\s()$']+))/gy
+  let match: RegExpExecArray | null
+  while ((match = re.exec(description)) && match[0].trim().length) {
+    if (match[1] != null) tokens.push({ value: match[1].replace(/\\(27|5c)/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))), quoted: true })
+    else tokens.push({ value: match[2] ?? match[3], quoted: false })
+  }
+  return tokens
+}
+
+/**
+ * Parse one RFC 4512 schema description, like ( 2.5.4.3 NAME 'cn' SUP name ), into its OID and
+ * a list of values for each keyword. Keywords that are flags get an empty list.
+ */
+export function parseSchemaDescription (description: string) {
+  const tokens = tokenize(description)
+  let i = 0
+  const next = () => tokens[i++]?.value
+  if (next() !== '(') throw new Error(`Unable to parse schema description: ${description}`)
+  const oid = next()
+  const fields = new Map<string, string[]>()
+  while (i < tokens.length) {
+    const keyword = next()
+    if (keyword === ')') break
+    const values: string[] = []
+    if (!flags.has(keyword)) {
+      if (tokens[i]?.value === '(' && !tokens[i].quoted) {
+        i++
+        for (let v = next(); v != null && v !== ')'; v = next()) if (v !== '$') values.push(v)
+      } else {
+        const v = next()
+        if (v != null) values.push(v)
+      }
+    }
+    fields.set(keyword, values)
+  }
+  return { oid, fields }
+}
+
+function element (description: string): LdapSchemaElement & { fields: Map<string, string[]> } {
+  const { oid, fields } = parseSchemaDescription(description)
+  const names = fields.get('NAME') ?? []
+  const extensions: Record<string, string[]> = {}
+  for (const [keyword, values] of fields) if (keyword.startsWith('X-')) extensions[keyword] = values
+  return { oid, names, name: names[0] ?? oid, description: fields.get('DESC')?.[0], obsolete: fields.has('OBSOLETE'), extensions, fields }
+}
+
+export function parseAttributeType (description: string): LdapAttributeType {
+  const { fields, ...rest } = element(description)
+  const [syntax, length] = fields.get('SYNTAX')?.[0]?.split(/[{}]/) ?? []
+  return {
+    ...rest,
+    sup: fields.get('SUP')?.[0],
+    equality: fields.get('EQUALITY')?.[0],
+    ordering: fields.get('ORDERING')?.[0],
+    substr: fields.get('SUBSTR')?.[0],
+    syntax,
+    syntaxLength: length ? Number(length) : undefined,
+    singleValue: fields.has('SINGLE-VALUE'),
+    collective: fields.has('COLLECTIVE'),
+    noUserModification: fields.has('NO-USER-MODIFICATION'),
+    usage: (fields.get('USAGE')?.[0] ?? 'userApplications') as LdapAttributeType['usage']
+  }
+}
+
+export function parseObjectClass (description: string): LdapObjectClass {
+  const { fields, ...rest } = element(description)
+  const must = fields.get('MUST') ?? []
+  const may = fields.get('MAY') ?? []
+  return {
+    ...rest,
+    sup: fields.get('SUP') ?? [],
+    superiors: [],
+    kind: fields.has('ABSTRACT') ? 'abstract' : fields.has('AUXILIARY') ? 'auxiliary' : 'structural',
+    must,
+    may,
+    allMust: must,
+    allMay: may
+  }
+}
+
+export function parseSyntax (description: string): LdapSyntax {
+  const { oid, description: desc, extensions } = element(description)
+  return { oid, description: desc, extensions }
+}
+
+export function parseMatchingRule (description: string): LdapMatchingRule {
+  const { fields, ...rest } = element(description)
+  return { ...rest, syntax: fields.get('SYNTAX')?.[0] ?? '' }
+}
+
+function index<T extends { oid: string, names?: string[] }> (elements: T[]) {
+  const ret = new Map<string, T>()
+  for (const e of elements) {
+    ret.set(e.oid.toLocaleLowerCase(), e)
+    for (const name of e.names ?? []) ret.set(name.toLocaleLowerCase(), e)
+  }
+  return ret
+}
+
+/**
+ * The server's schema, with attribute types and object classes linked to the ones they are
+ * derived from. Look elements up by any of their names or their OID, case insensitively.
+ */
+export class LdapSchema {
+  attributeTypes: LdapAttributeType[]
+  objectClasses: LdapObjectClass[]
+  syntaxes: LdapSyntax[]
+  matchingRules: LdapMatchingRule[]
+  protected attributeTypeIndex: Map<string, LdapAttributeType>
+  protected objectClassIndex: Map<string, LdapObjectClass>
+  protected syntaxIndex: Map<string, LdapSyntax>
+  protected matchingRuleIndex: Map<string, LdapMatchingRule>
+
+  constructor (entry: LdapEntry) {
+    this.attributeTypes = entry.all('attributeTypes').map(parseAttributeType)
+    this.objectClasses = entry.all('objectClasses').map(parseObjectClass)
+    this.syntaxes = entry.all('ldapSyntaxes').map(parseSyntax)
+    this.matchingRules = entry.all('matchingRules').map(parseMatchingRule)
+    this.attributeTypeIndex = index(this.attributeTypes)
+    this.objectClassIndex = index(this.objectClasses)
+    this.syntaxIndex = index(this.syntaxes)
+    this.matchingRuleIndex = index(this.matchingRules)
+    for (const at of this.attributeTypes) this.resolveAttributeType(at, new Set())
+    for (const oc of this.objectClasses) this.resolveObjectClass(oc, new Set())
+  }
+
+  attributeType (nameOrOid: string) {
+    return this.attributeTypeIndex.get(nameOrOid.toLocaleLowerCase())
+  }
+
+  objectClass (nameOrOid: string) {
+    return this.objectClassIndex.get(nameOrOid.toLocaleLowerCase())
+  }
+
+  syntax (oid: string) {
+    return this.syntaxIndex.get(oid.toLocaleLowerCase())
+  }
+
+  matchingRule (nameOrOid: string) {
+    return this.matchingRuleIndex.get(nameOrOid.toLocaleLowerCase())
+  }
+
+  // visiting guards against a schema where a class is (indirectly) derived from itself
+  protected resolveAttributeType (at: LdapAttributeType, visiting: Set<LdapAttributeType>) {
+    if (!at.sup || at.superior != null || visiting.has(at)) return
+    const superior = this.attributeType(at.sup)
+    if (!superior) return
+    visiting.add(at)
+    this.resolveAttributeType(superior, visiting)
+    at.superior = superior
+    at.equality ??= superior.equality
+    at.ordering ??= superior.ordering
+    at.substr ??= superior.substr
+    if (!at.syntax) {
+      at.syntax = superior.syntax
+      at.syntaxLength ??= superior.syntaxLength
+    }
+  }
+
+  protected resolveObjectClass (oc: LdapObjectClass, visiting: Set<LdapObjectClass>) {
+    if (oc.superiors.length > 0 || !oc.sup.length || visiting.has(oc)) return
+    visiting.add(oc)
+    const must = new Set(oc.must)
+    const may = new Set(oc.may)
+    for (const name of oc.sup) {
+      const superior = this.objectClass(name)
+      if (!superior) continue
+      this.resolveObjectClass(superior, visiting)
+      oc.superiors.push(superior)
+      for (const attr of superior.allMust) must.add(attr)
+      for (const attr of superior.allMay) may.add(attr)
+    }
+    oc.allMust = Array.from(must)
+    oc.allMay = Array.from(may).filter(attr => !must.has(attr))
+  }
+}
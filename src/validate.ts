@@ -0,0 +1,113 @@
+import type { LdapAttributeType, LdapObjectClass, LdapSchema } from './schema'
+
+export interface LdapSchemaViolation {
+  /**
+   * 'missing': a MUST attribute of one of the object classes has no value.
+   * 'notAllowed': the attribute is not in the MUST or MAY of any of the object classes.
+   * 'unknownAttribute' and 'unknownObjectClass': not in the schema at all.
+   * 'singleValue': a SINGLE-VALUE attribute was given more than one value.
+   * 'syntax': a value does not fit the attribute's syntax.
+   * 'readOnly': the attribute is maintained by the server.
+   */
+  kind: 'missing' | 'notAllowed' | 'unknownAttribute' | 'unknownObjectClass' | 'singleValue' | 'syntax' | 'readOnly'
+  /**
+   * For 'unknownObjectClass', the name of the object class.
+   */
+  attribute: string
+  /**
+   * For 'syntax', the offending value.
+   */
+  value?: string
+  message: string
+}
+
+export type LdapValidationValue = string | Buffer
+
+const printable = /^[A-Za-z0-9'()+,\-./:?= ]*$/
+const syntaxCheckers: Record<string, (value: string) => boolean> = {
+  // Boolean
+  7: value => value === 'TRUE' || value === 'FALSE',
+  // Country String
+  11: value => value.length === 2 && printable.test(value),
+  // DN, the root DSE is the empty string
+  12: value => value === '' || /^[^=,]+=/.test(value),
+  // Directory String
+  15: value => value.length > 0,
+  // Generalized Time
+  24: value => /^\d{10}(\d{2}(\d{2})?)?([.,]\d+)?(Z|[+-]\d{2}(\d{2})?)$/.test(value),
+  // IA5 String
+  26: value => /^\p{ASCII}*$/u.test(value),
+  // Integer
+  27: value => /^-?(0|[1-9]\d*)$/.test(value),
+  // Numeric String
+  36: value => /^[\d ]+$/.test(value),
+  // OID
+  38: value => /^(\d+(\.\d+)*|[A-Za-z][A-Za-z0-9-]*)$/.test(value),
+  // Printable String
+  44: value => value.length > 0 && printable.test(value),
+  // Telephone Number
+  50: value => value.length > 0 && printable.test(value)
+}
+
+function checkSyntax (at: LdapAttributeType, value: LdapValidationValue) {
+  const match = at.syntax?.match(/^1\.3\.6\.1\.4\.1\.1466\.115\.121\.1\.(\d+)$/)
+  const checker = match ? syntaxCheckers[match[1]] : undefined
+  if (!checker) return true
+  return checker(Buffer.isBuffer(value) ? value.toString('utf-8') : value)
+}
+
+/**
+ * Check a complete entry against the schema. `changed` limits the syntax checks to values that
+ * are being written, so that an existing value the server accepted is never second guessed.
+ */
+export function validateEntry (schema: LdapSchema, attributes: Record<string, LdapValidationValue[]>, changed: Record<string, LdapValidationValue[]> = attributes) {
+  const violations: LdapSchemaViolation[] = []
+  const byType = new Map<LdapAttributeType, string>()
+  let objectClassValues: LdapValidationValue[] = []
+  for (const [name, values] of Object.entries(attributes)) {
+    if (!values.length) continue
+    const baseName = name.split(';')[0]
+    const at = schema.attributeType(baseName)
+    if (!at) {
+      violations.push({ kind: 'unknownAttribute', attribute: baseName, message: `${baseName} is not in the schema.` })
+      continue
+    }
+    if (at.name.toLocaleLowerCase() === 'objectclass') objectClassValues = values
+    byType.set(at, baseName)
+    if (at.singleValue && values.length > 1) violations.push({ kind: 'singleValue', attribute: baseName, message: `${baseName} may only have one value.` })
+  }
+
+  const classes: LdapObjectClass[] = []
+  for (const value of objectClassValues) {
+    const name = String(value)
+    const oc = schema.objectClass(name)
+    if (oc) classes.push(oc)
+    else violations.push({ kind: 'unknownObjectClass', attribute: name, message: `Object class ${name} is not in the schema.` })
+  }
+  const must = new Set(classes.flatMap(oc => oc.allMust).map(name => schema.attributeType(name)))
+  const may = new Set(classes.flatMap(oc => oc.allMay).map(name => schema.attributeType(name)))
+  for (const at of must) {
+    if (at && !byType.has(at)) violations.push({ kind: 'missing', attribute: at.name, message: `${at.name} is required by ${classes.filter(oc => oc.allMust.some(name => schema.attributeType(name) === at)).map(oc => oc.name).join(', ')}.` })
+  }
+  const anything = classes.some(oc => oc.name.toLocaleLowerCase() === 'extensibleobject')
+  for (const [at, name] of byType) {
+    // operational attributes don't need to be allowed by an object class
+    if (!anything && at.usage === 'userApplications' && !must.has(at) && !may.has(at)) {
+      violations.push({ kind: 'notAllowed', attribute: name, message: `${name} is not allowed by ${classes.map(oc => oc.name).join(', ') || 'any object class'}.` })
+    }
+  }
+
+  for (const [name, values] of Object.entries(changed)) {
+    const baseName = name.split(';')[0]
+    const at = schema.attributeType(baseName)
+    if (!at) continue
+    if (at.noUserModification) {
+      violations.push({ kind: 'readOnly', attribute: baseName, message: `${baseName} is maintained by the server.` })
+      continue
+    }
+    for (const value of values) {
+      if (!checkSyntax(at, value)) violations.push({ kind: 'syntax', attribute: baseName, value: String(value), message: `${String(value)} is not a valid value for ${baseName}.` })
+    }
+  }
+  return violations
+}
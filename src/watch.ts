@@ -0,0 +1,280 @@
+import asn1 from 'asn1'
+import { type Client, type Control, EntryChangeNotificationControl, type Entry, type Filter, PersistentSearchControl, type SearchEntry, type SearchOptions, SearchReference } from 'ldapts'
+import { DirSyncControl, SyncDoneControl, SyncRequestControl, SyncState, SyncStateControl } from './controls'
+import type { LdapEntry, LdapOperationOptions } from '.'
+
+const { BerReader } = asn1
+
+export type LdapWatchMechanism = 'sync' | 'psearch' | 'dirsync'
+
+export interface LdapWatchOptions extends LdapOperationOptions {
+  filter?: string | Filter
+  /**
+   * Default is 'sub'.
+   */
+  scope?: SearchOptions['scope']
+  attributes?: string[]
+  /**
+   * Default is to use the best mechanism the server advertises in its RootDSE: content sync
+   * (OpenLDAP), then DirSync (Active Directory), then persistent search.
+   */
+  mechanism?: LdapWatchMechanism
+  /**
+   * The `cookie` from the last event you finished processing, to resume where you left off.
+   */
+  cookie?: string
+  /**
+   * Without a cookie, every existing entry is reported as an 'add' before changes start to
+   * arrive. Set this to skip them and only report changes from now on.
+   */
+  changesOnly?: boolean
+  /**
+   * DirSync cannot push changes, so we ask for them this often. Default is 60000.
+   */
+  pollIntervalMs?: number
+}
+
+export interface LdapWatchEvent<T = any> {
+  type: 'add' | 'modify' | 'delete' | 'modDN'
+  /**
+   * May be missing from a 'delete' when the server only identified the entry by its UUID and it
+   * had not been seen since the watch started.
+   */
+  dn?: string
+  /**
+   * For 'modDN', the DN the entry had before it moved, when the server reports it.
+   */
+  previousDN?: string
+  /**
+   * Missing from a 'delete'. DirSync only includes the attributes that changed.
+   */
+  entry?: LdapEntry<T>
+  /**
+   * The entryUUID, for content sync only.
+   */
+  uuid?: string
+  /**
+   * Save this once you're done processing the event, and pass it back as the `cookie` option to
+   * resume from here after a restart. Persistent search has no way to resume, so it never
+   * provides a cookie.
+   */
+  cookie?: string
+}
+
+export interface LdapRawChange {
+  type: LdapWatchEvent['type']
+  dn?: string
+  previousDN?: string
+  entry?: Entry
+  uuid?: string
+  cookie?: string
+}
+
+export const watchControlTypes: Record<LdapWatchMechanism, string> = {
+  sync: SyncRequestControl.type,
+  dirsync: DirSyncControl.type,
+  psearch: PersistentSearchControl.type
+}
+
+export function encodeWatchCookie (mechanism: LdapWatchMechanism, cookie: Buffer) {
+  return `${mechanism}:${cookie.toString('base64')}`
+}
+
+export function decodeWatchCookie (cookie: string) {
+  const [mechanism, value] = cookie.split(':', 2)
+  if (!(mechanism in watchControlTypes) || value == null) throw new Error('Unrecognized watch cookie.')
+  return { mechanism: mechanism as LdapWatchMechanism, value: Buffer.from(value, 'base64') }
+}
+
+/**
+ * Everything a mechanism needs to run on a dedicated connection. `state` outlives the connection,
+ * so that a watch can reconnect and carry on from its latest cookie.
+ */
+export interface WatchContext {
+  client: Client
+  base: string
+  options: LdapWatchOptions & { explicitBufferAttributes: string[] }
+  state: {
+    cookie?: Buffer
+    /**
+     * Whether changes should be reported yet, false during an initial load with changesOnly.
+     */
+    reporting: boolean
+    /**
+     * Whether the watch has already been started once, so that a reconnect knows it is one.
+     */
+    started?: boolean
+    uuids: Map<string, string>
+  }
+  emit: (change: LdapRawChange) => void
+  stopped: () => boolean
+}
+
+function formatUUID (uuid?: Buffer) {
+  if (!uuid || uuid.length !== 16) return uuid?.toString('hex')
+  const hex = uuid.toString('hex')
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+}
+
+interface SyncInfo {
+  cookie?: Buffer
+  refreshDone?: boolean
+  refreshDeletes?: boolean
+  syncUUIDs?: Buffer[]
+}
+
+/**
+ * Parse the value of an RFC 4533 Sync Info Message.
+ */
+function parseSyncInfo (value: Buffer): SyncInfo {
+  const reader = new BerReader(value)
+  const tag = reader.peek()
+  if (tag === 0x80) return { cookie: reader.readString(0x80, true) ?? undefined }
+  // refreshDelete and refreshPresent mark the end of a refresh phase unless they say otherwise
+  const info: SyncInfo = { refreshDone: tag === 0xa1 || tag === 0xa2 ? true : undefined }
+  if (tag == null || reader.readSequence(tag) == null) return info
+  const end = reader.offset + reader.length
+  if (reader.offset < end && reader.peek() === asn1.Ber.OctetString) info.cookie = reader.readString(asn1.Ber.OctetString, true) ?? undefined
+  if (reader.offset < end && reader.peek() === asn1.Ber.Boolean) {
+    if (tag === 0xa3) info.refreshDeletes = reader.readBoolean() ?? false
+    else info.refreshDone = reader.readBoolean() ?? true
+  }
+  if (tag === 0xa3 && reader.offset < end && reader.readSequence(0x31) != null) {
+    info.syncUUIDs = []
+    const setEnd = reader.offset + reader.length
+    while (reader.offset < setEnd) info.syncUUIDs.push(reader.readString(asn1.Ber.OctetString, true)!)
+  }
+  return info
+}
+
+/**
+ * ldapts rejects Intermediate Responses as an unsupported protocol operation, which would end the
+ * search. Teach this connection's parser to hand them over as a SearchReference carrying the
+ * response instead, which keeps the search open and lands in our hooked searchReferences.
+ */
+function acceptIntermediateResponses (client: Client) {
+  const parser = (client as any).messageParser
+  if (parser.acceptsIntermediate) return
+  const original = parser._getMessageFromProtocolOperation.bind(parser)
+  parser._getMessageFromProtocolOperation = (messageId: number, protocolOperation: number, reader: any, request: any) => {
+    if (protocolOperation !== 0x79) return original(messageId, protocolOperation, reader, request)
+    const message = new SearchReference({ messageId, uris: [] }) as SearchReference & { intermediate: { name?: string, value?: Buffer } }
+    const end = reader.offset + reader.length
+    message.intermediate = {}
+    if (reader.offset < end && reader.peek() === 0x80) message.intermediate.name = reader.readString(0x80) ?? undefined
+    if (reader.offset < end && reader.peek() === 0x81) message.intermediate.value = reader.readString(0x81, true) ?? undefined
+    return message
+  }
+  parser.acceptsIntermediate = true
+}
+
+/**
+ * Start a search and receive each entry and reference as it arrives, instead of all at once when
+ * the search is done. Persistent searches are never done.
+ */
+async function searchWithHooks (ctx: WatchContext, controls: Control[], onEntry: (entry: SearchEntry) => void, onReference?: (reference: any) => void) {
+  const { client, base, options } = ctx
+  const hooked = (handler: (item: any) => void) => {
+    const arr: any[] = []
+    arr.push = (...items: any[]) => {
+      for (const item of items) handler(item)
+      return 0
+    }
+    return arr
+  }
+  const promise = client.search(base, { scope: options.scope ?? 'sub', filter: options.filter, attributes: options.attributes, explicitBufferAttributes: options.explicitBufferAttributes, timeLimit: 0 }, controls)
+  // the request was registered synchronously, so we can install our hooks before any response arrives
+  for (const details of (client as any).messageDetailsByMessageId.values()) {
+    if (details.message.controls?.includes(controls[0])) {
+      details.searchEntries = hooked(onEntry)
+      details.searchReferences = hooked(onReference ?? (() => {}))
+    }
+  }
+  return await promise
+}
+
+function toEntry (ctx: WatchContext, message: SearchEntry) {
+  return message.toObject(ctx.options.attributes ?? [], ctx.options.explicitBufferAttributes)
+}
+
+async function runSync (ctx: WatchContext) {
+  const { state } = ctx
+  acceptIntermediateResponses(ctx.client)
+  const request = new SyncRequestControl({ mode: 'refreshAndPersist', cookie: state.cookie }, { critical: true })
+  const syncState = new SyncStateControl()
+  const syncDone = new SyncDoneControl()
+  const cookie = () => state.cookie ? encodeWatchCookie('sync', state.cookie) : undefined
+  await searchWithHooks(ctx, [request, syncState, syncDone], message => {
+    if (syncState.cookie) state.cookie = syncState.cookie
+    const uuid = formatUUID(syncState.entryUUID)
+    const previousDN = uuid ? state.uuids.get(uuid) : undefined
+    if (syncState.state === SyncState.delete) {
+      if (uuid) state.uuids.delete(uuid)
+      if (state.reporting) ctx.emit({ type: 'delete', dn: message.name, uuid, cookie: cookie() })
+      return
+    }
+    if (uuid) state.uuids.set(uuid, message.name)
+    if (syncState.state === SyncState.present || !state.reporting) return
+    const moved = previousDN != null && previousDN.toLowerCase() !== message.name.toLowerCase()
+    const type = moved ? 'modDN' : syncState.state === SyncState.add ? 'add' : 'modify'
+    ctx.emit({ type, dn: message.name, previousDN: moved ? previousDN : undefined, entry: toEntry(ctx, message), uuid, cookie: cookie() })
+  }, reference => {
+    if (!reference.intermediate?.value) return
+    const info = parseSyncInfo(reference.intermediate.value)
+    if (info.cookie) state.cookie = info.cookie
+    if (info.syncUUIDs && info.refreshDeletes) {
+      for (const raw of info.syncUUIDs) {
+        const uuid = formatUUID(raw)!
+        const dn = state.uuids.get(uuid)
+        state.uuids.delete(uuid)
+        if (state.reporting) ctx.emit({ type: 'delete', dn, uuid, cookie: cookie() })
+      }
+    }
+    // the initial refresh is over, and from here on we are receiving changes
+    if (info.refreshDone) state.reporting = true
+  })
+  if (syncDone.cookie) state.cookie = syncDone.cookie
+}
+
+async function runPersistentSearch (ctx: WatchContext) {
+  const { state } = ctx
+  // a persistent search cannot resume, so after reconnecting only new changes are of interest,
+  // the existing entries were already reported as adds the first time
+  const request = new PersistentSearchControl({ critical: true, value: { changeTypes: 15, changesOnly: !!state.started || !state.reporting, returnECs: true } })
+  state.started = true
+  state.reporting = true
+  const changeTypes: Record<number, LdapWatchEvent['type']> = { 1: 'add', 2: 'delete', 4: 'modify', 8: 'modDN' }
+  await searchWithHooks(ctx, [request], message => {
+    const notification: EntryChangeNotificationControl | undefined = message.controls?.find(c => c instanceof EntryChangeNotificationControl)
+    const type = notification?.value ? changeTypes[notification.value.changeType] ?? 'modify' : 'add'
+    ctx.emit({ type, dn: message.name, previousDN: notification?.value?.previousDN ?? undefined, entry: type === 'delete' ? undefined : toEntry(ctx, message) })
+  })
+}
+
+async function runDirSync (ctx: WatchContext) {
+  const { client, base, options, state } = ctx
+  while (!ctx.stopped()) {
+    const control = new DirSyncControl({ cookie: state.cookie }, { critical: true })
+    const { searchEntries } = await client.search(base, { scope: options.scope ?? 'sub', filter: options.filter ?? '(objectClass=*)', attributes: options.attributes, explicitBufferAttributes: options.explicitBufferAttributes, timeLimit: 0 }, [control])
+    if (control.cookie?.length) state.cookie = control.cookie
+    if (state.reporting) {
+      for (let i = 0; i < searchEntries.length; i++) {
+        const entry = searchEntries[i]
+        const deleted = String(entry.isDeleted).toUpperCase() === 'TRUE'
+        // the cookie covers the whole batch, so only hand it out with the last event
+        const cookie = i === searchEntries.length - 1 && state.cookie ? encodeWatchCookie('dirsync', state.cookie) : undefined
+        ctx.emit({ type: deleted ? 'delete' : 'modify', dn: entry.dn, entry: deleted ? undefined : entry, cookie })
+      }
+    }
+    if (control.moreResults) continue
+    state.reporting = true
+    const interval = options.pollIntervalMs ?? 60000
+    for (let waited = 0; waited < interval && !ctx.stopped(); waited += 100) await new Promise(resolve => setTimeout(resolve, Math.min(100, interval - waited)))
+  }
+}
+
+export const watchMechanisms: Record<LdapWatchMechanism, (ctx: WatchContext) => Promise<void>> = {
+  sync: runSync,
+  psearch: runPersistentSearch,
+  dirsync: runDirSync
+}
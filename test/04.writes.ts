@@ -2,6 +2,7 @@
 /* global describe, it */
 import { expect } from 'chai'
 import ldap from '../src/client'
+import Ldap, { LdapEntry } from '../src'
 import { UndefinedTypeError } from 'ldapts'
 
 const fryDN = 'cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com'
@@ -145,4 +146,42 @@ describe('write tests', () => {
     const group = await ldap.get('cn=service_staff,ou=people,dc=planetexpress,dc=com')
     expect(group.all('member')).to.have.lengthOf(1)
   })
+  it('should track changes made to an entry', () => {
+    const entry = new LdapEntry({ dn: fryDN, cn: ['Philip J. Fry', 'Fry'], sn: 'Fry', mail: 'fry@planetexpress.com' }, ldap)
+    expect(entry.changes()).to.deep.equal([])
+    entry.set('sn', 'Fry II')
+    entry.addValue('cn', ['Fry', 'Philip Fry'])
+    entry.removeValue('cn', 'Philip J. Fry')
+    entry.set('mail', undefined)
+    entry.set('employeeType', 'Delivery boy')
+    expect(entry.changes()).to.deep.equal([
+      { operation: 'delete', modification: { type: 'cn', values: ['Philip J. Fry'] } },
+      { operation: 'add', modification: { type: 'cn', values: ['Philip Fry'] } },
+      { operation: 'replace', modification: { type: 'sn', values: ['Fry II'] } },
+      { operation: 'delete', modification: { type: 'mail', values: [] } },
+      { operation: 'replace', modification: { type: 'employeeType', values: ['Delivery boy'] } }
+    ])
+  })
+  it('should save changes made to an entry and refresh it', async () => {
+    const entry = await ldap.get(fryDN)
+    expect(await entry.save()).to.be.false
+    entry.set('employeeType', 'Saved delivery boy')
+    expect(await entry.save()).to.be.true
+    expect(entry.changes()).to.deep.equal([])
+    expect(entry.get('employeeType')).to.equal('Saved delivery boy')
+    expect((await ldap.get(fryDN)).get('employeeType')).to.equal('Saved delivery boy')
+    entry.set('employeeType', 'Delivery boy')
+    await entry.save()
+  })
+  it('should keep its values when it can\'t be read back after saving', async () => {
+    const unreadable = new Ldap()
+    ;(unreadable as any).modify = async () => true
+    ;(unreadable as any).get = async () => undefined
+    const entry = new LdapEntry({ dn: fryDN, employeeType: 'Delivery boy' }, unreadable)
+    entry.set('employeeType', 'Hidden delivery boy')
+    expect(await entry.save()).to.be.true
+    expect(entry.get('employeeType')).to.equal('Hidden delivery boy')
+    expect(entry.changes()).to.deep.equal([])
+    await unreadable.close()
+  })
 })
@@ -2,13 +2,31 @@
 /* global describe, it */
 import { expect } from 'chai'
 import ldap from '../src/client'
-import { type LdapEntry } from '../src'
+import Ldap, { type LdapEntry } from '../src'
 
 const fryDN = 'cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com'
 const amyDN = 'cn=Amy Wong+sn=Kroker,ou=people,dc=planetexpress,dc=com'
 const crewDN = 'cn=ship_crew,ou=people,dc=planetexpress,dc=com'
 const testGrpDN = 'cn=test_group,ou=people,dc=planetexpress,dc=com'
 
+const people = ['Philip J. Fry', 'Turanga Leela', 'Hermes Conrad', 'Hubert J. Farnsworth'].map(cn => `cn=${cn},ou=people,dc=planetexpress,dc=com`)
+
+/**
+ * A group with several nested groups, so that there is something to expand concurrently.
+ */
+async function wideGroup () {
+  const groupDNs = people.map((_, i) => `cn=wide_${i},ou=people,dc=planetexpress,dc=com`)
+  const topDN = 'cn=wide_top,ou=people,dc=planetexpress,dc=com'
+  for (const [i, dn] of groupDNs.entries()) await ldap.add(dn, { objectClass: 'groupOfNames', cn: `wide_${i}`, member: people.slice(i) })
+  await ldap.add(topDN, { objectClass: 'groupOfNames', cn: 'wide_top', member: [...groupDNs, amyDN] })
+  return {
+    topDN,
+    cleanup: async () => {
+      for (const dn of [topDN, ...groupDNs]) await ldap.remove(dn)
+    }
+  }
+}
+
 describe('group membership tests', () => {
   it('should be able to add a member to a group', async () => {
     const before = await ldap.get(crewDN)
@@ -110,4 +128,116 @@ describe('group membership tests', () => {
     const fryMembers = members.filter(m => m.dn === fryDN)
     expect(fryMembers).to.have.lengthOf(1)
   })
+  it('should get the groups an entry is in, including nested groups', async () => {
+    const scruffyDN = 'cn=Scruffy Scruffington,ou=people,dc=planetexpress,dc=com'
+    const direct = await ldap.getGroups(scruffyDN, { recursive: false, mechanism: 'search' })
+    expect(direct.map(g => g.dn)).to.include('cn=service_staff,ou=people,dc=planetexpress,dc=com')
+    expect(direct.map(g => g.dn)).not.to.include(crewDN)
+    const groups = await ldap.getGroups(scruffyDN, { attributes: ['cn'] })
+    expect(groups.map(g => g.one('cn'))).to.include.members(['service_staff', 'ship_crew'])
+    expect(new Set(groups.map(g => g.dn)).size).to.equal(groups.length)
+  })
+  it('should follow memberOf to nested groups without being given attributes', async () => {
+    const scruffyDN = 'cn=Scruffy Scruffington,ou=people,dc=planetexpress,dc=com'
+    const groups = await ldap.getGroups(scruffyDN, { mechanism: 'memberOf' })
+    expect(groups.map(g => g.dn)).to.include.members(['cn=service_staff,ou=people,dc=planetexpress,dc=com', crewDN])
+    expect(groups[0].one('cn')).to.be.a('string')
+  })
+  it('should be able to stream the groups an entry is in', async () => {
+    const groups: LdapEntry[] = []
+    for await (const g of ldap.getGroupStream(fryDN, { mechanism: 'search' })) groups.push(g)
+    expect(groups.map(g => g.dn)).to.include.members([crewDN, testGrpDN])
+  })
+  it('should check membership without expanding the whole group', async () => {
+    const scruffyDN = 'cn=Scruffy Scruffington,ou=people,dc=planetexpress,dc=com'
+    expect(await ldap.isMember(fryDN, crewDN)).to.be.true
+    expect(await ldap.isMember(scruffyDN, crewDN)).to.be.true
+    expect(await ldap.isMember(scruffyDN, crewDN, { recursive: false })).to.be.false
+    expect(await ldap.isMember(amyDN, crewDN)).to.be.false
+  })
+  it('should cache nested groups when checking membership', async () => {
+    const cachedClient = new Ldap({ cache: {} })
+    let searches = 0
+    cachedClient.on('operation', ({ operation }) => { if (operation === 'search') searches++ })
+    expect(await cachedClient.isMember(amyDN, crewDN, { mechanism: 'search' })).to.be.false
+    const uncached = searches
+    searches = 0
+    expect(await cachedClient.isMember(amyDN, crewDN, { mechanism: 'search' })).to.be.false
+    expect(searches).to.be.lessThan(uncached)
+    await cachedClient.close()
+  })
+  it('should set the members of a group to exactly what is given', async () => {
+    const leelaDN = 'cn=Turanga Leela,ou=people,dc=planetexpress,dc=com'
+    const before = await ldap.get(testGrpDN)
+    const preview = await ldap.setMembers(testGrpDN, [fryDN.toUpperCase(), leelaDN, leelaDN], { dryRun: true })
+    expect(preview.added).to.deep.equal([leelaDN])
+    expect(preview.removed).not.to.include(fryDN)
+    expect((await ldap.get(testGrpDN)).all('member')).to.deep.equal(before.all('member'))
+    const result = await ldap.setMembers(testGrpDN, [leelaDN, amyDN], { batchSize: 1 })
+    expect(result.added).to.have.members([leelaDN, amyDN])
+    expect(result.removed).to.deep.equal(before.all('member'))
+    expect((await ldap.get(testGrpDN)).all('member')).to.have.members([leelaDN, amyDN])
+    await ldap.setMembers(testGrpDN, before.all('member'))
+  })
+  it('should report the groups that led to each member', async () => {
+    const staffDN = 'cn=service_staff,ou=people,dc=planetexpress,dc=com'
+    const members = await ldap.getMembers(crewDN, ['givenName'], { paths: true })
+    const scruffy = members.find(m => m.one('givenName') === 'Scruffy')
+    expect(scruffy?.paths).to.deep.equal([[crewDN, staffDN]])
+    expect(members.find(m => m.dn === fryDN)?.paths).to.deep.equal([[crewDN]])
+    const streamed: LdapEntry[] = []
+    for await (const m of ldap.getMemberStream(crewDN, ['givenName'], { paths: true })) streamed.push(m)
+    expect(streamed.find(m => m.one('givenName') === 'Scruffy')?.paths).to.deep.equal([[crewDN, staffDN]])
+  })
+  it('should return the nested group hierarchy', async () => {
+    const tree = await ldap.getGroupTree(crewDN)
+    expect(tree.dn).to.equal(crewDN)
+    expect(tree.groups.map(g => g.dn)).to.deep.equal(['cn=service_staff,ou=people,dc=planetexpress,dc=com'])
+    expect(tree.groups[0].groups).to.deep.equal([])
+    expect(tree.groups[0].cycle).to.be.undefined
+  })
+  it('should limit how deep nested groups are expanded', async () => {
+    const direct = await ldap.getMembers(crewDN, ['givenName'], { maxDepth: 0 })
+    expect(direct.map(m => m.one('givenName'))).to.include('Leela')
+    expect(direct.map(m => m.one('givenName'))).not.to.include('Scruffy')
+    const all = await ldap.getMembers(crewDN, ['givenName'], { concurrency: 1 })
+    expect(all.map(m => m.one('givenName'))).to.include('Scruffy')
+  })
+  it('should find the same members expanding nested groups concurrently', async () => {
+    const { topDN, cleanup } = await wideGroup()
+    const concurrentClient = new Ldap({ poolSize: 4 })
+    let active = 0
+    let peak = 0
+    concurrentClient.on('acquire', () => { peak = Math.max(peak, ++active) })
+    concurrentClient.on('release', () => { active-- })
+    const sequential = await concurrentClient.getMembers(topDN, ['givenName'], { concurrency: 1 })
+    peak = 0
+    const concurrent = await concurrentClient.getMembers(topDN, ['givenName'], { concurrency: 4 })
+    expect(peak).to.be.greaterThan(1)
+    expect(concurrent.map(m => m.dn)).to.have.members(sequential.map(m => m.dn))
+    expect(concurrent).to.have.lengthOf(sequential.length)
+    await concurrentClient.close()
+    await cleanup()
+  })
+  it('should stop expanding nested groups when the stream is destroyed', async () => {
+    const { topDN, cleanup } = await wideGroup()
+    const streamClient = new Ldap({ poolSize: 4 })
+    let searches = 0
+    streamClient.on('acquire', () => { searches++ })
+    for await (const member of streamClient.getMemberStream(topDN, ['givenName'], { concurrency: 1 })) expect(member.dn).to.be.a('string')
+    const expanded = searches
+    searches = 0
+    const members = streamClient.getMemberStream(topDN, ['givenName'], { concurrency: 1 })[Symbol.asyncIterator]()
+    expect((await members.next()).value.dn).to.be.a('string')
+    await members.return?.()
+    // give searches already in flight time to finish, then nothing new should start
+    await new Promise(resolve => setTimeout(resolve, 100))
+    const started = searches
+    await new Promise(resolve => setTimeout(resolve, 200))
+    expect(searches).to.equal(started)
+    expect(started).to.be.lessThan(expanded)
+    expect(streamClient.stats().busy).to.equal(0)
+    await streamClient.close()
+    await cleanup()
+  })
 })
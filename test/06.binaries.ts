@@ -1,6 +1,7 @@
 /* eslint-disable @typescript-eslint/no-unused-expressions */
 /* global describe, it */
 import { expect } from 'chai'
+import Ldap from '../src'
 import ldap from '../src/client'
 import sizeOf from 'image-size'
 
@@ -41,4 +42,20 @@ describe('binary tests', () => {
     expect(hermes.isBinary('jpegPhoto')).to.be.true
     expect(dim.width).to.equal(429)
   })
+
+  it('should return configured attributes as binary regardless of case', async () => {
+    const binaryClient = new Ldap({ binaryAttributes: ['DESCRIPTION'] })
+    await binaryClient.setAttribute('cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com', 'description', 'binary')
+    const fry = await binaryClient.get('cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com')
+    expect(fry.isBinary('description')).to.be.true
+    expect(fry.buffer('description')?.toString()).to.equal('binary')
+    await binaryClient.close()
+  })
+
+  it('should find binary attributes in the schema', async () => {
+    const schemaClient = new Ldap({ binaryAttributesFromSchema: true })
+    const fry = await schemaClient.get('cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com', { attributes: ['userPassword'] })
+    expect(fry.isBinary('userPassword')).to.be.true
+    await schemaClient.close()
+  })
 })
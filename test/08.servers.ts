@@ -0,0 +1,92 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+/* global describe, it */
+import { expect } from 'chai'
+import { type AddressInfo, connect, createServer, type Socket } from 'node:net'
+import Ldap from '../src'
+
+const people = [
+  'cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com',
+  'cn=Hermes Conrad,ou=people,dc=planetexpress,dc=com',
+  'cn=Turanga Leela,ou=people,dc=planetexpress,dc=com',
+  'cn=Hubert J. Farnsworth,ou=people,dc=planetexpress,dc=com'
+]
+
+/**
+ * Forwards connections to the test server until it is stopped, then drops them all and refuses
+ * new ones, like a server that went away.
+ */
+async function ldapProxy () {
+  const sockets = new Set<Socket>()
+  const server = createServer(socket => {
+    const upstream = connect(Number(process.env.LDAP_PORT ?? 389), process.env.LDAP_HOST)
+    for (const s of [socket, upstream]) {
+      sockets.add(s)
+      s.on('error', () => {})
+      s.on('close', () => {
+        sockets.delete(s)
+        socket.destroy()
+        upstream.destroy()
+      })
+    }
+    socket.pipe(upstream).pipe(socket)
+  })
+  await new Promise<void>(resolve => { server.listen(0, '127.0.0.1', resolve) })
+  return {
+    url: `ldap://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    stop: async () => {
+      for (const s of sockets) s.destroy()
+      await new Promise(resolve => { server.close(resolve) })
+    }
+  }
+}
+
+describe('multiple server tests', () => {
+  it('should fail over to a healthy server when another server cannot be reached', async () => {
+    const multiClient = new Ldap({ host: ['nonexistent.invalid', process.env.LDAP_HOST!], connectTimeout: 1000 })
+    try {
+      const user = await multiClient.get('cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com')
+      expect(user.one('givenName')).to.equal('Philip')
+      expect(user.server).to.include(process.env.LDAP_HOST)
+      const status = multiClient.serverStatus()
+      expect(status[0].healthy).to.be.false
+      expect(status[0].failures).to.equal(1)
+      expect(status[1].healthy).to.be.true
+      expect(status[1].connections).to.equal(1)
+    } finally {
+      await multiClient.close()
+    }
+  })
+  it('should not reconnect a dropped connection to a server that is cooling down', async () => {
+    const proxy = await ldapProxy()
+    const multiClient = new Ldap({ url: [proxy.url, `ldap://${process.env.LDAP_HOST!}:${process.env.LDAP_PORT ?? 389}`], poolSize: 4 })
+    try {
+      await Promise.all(people.map(async dn => await multiClient.get(dn)))
+      expect(multiClient.serverStatus().map(s => s.connections)).to.deep.equal([2, 2])
+      // both connections through the proxy drop, the first one to be reused finds its server gone
+      await proxy.stop()
+      await new Promise(resolve => setTimeout(resolve, 50))
+      await multiClient.get(people[0])
+      expect(multiClient.serverStatus()[0].failures).to.equal(1)
+      // the other one must go straight to the healthy server
+      await Promise.all(people.map(async dn => await multiClient.get(dn)))
+      const status = multiClient.serverStatus()
+      expect(status[0].healthy).to.be.false
+      expect(status[0].failures).to.equal(1)
+      expect(status.map(s => s.connections)).to.deep.equal([0, 4])
+    } finally {
+      await multiClient.close()
+    }
+  })
+  it('should accept a comma separated list of hosts', async () => {
+    const multiClient = new Ldap({ host: `${process.env.LDAP_HOST!},${process.env.LDAP_HOST!}` })
+    try {
+      await Promise.all([
+        multiClient.get('cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com'),
+        multiClient.get('cn=Hermes Conrad,ou=people,dc=planetexpress,dc=com')
+      ])
+      expect(multiClient.serverStatus().map(s => s.connections)).to.deep.equal([1, 1])
+    } finally {
+      await multiClient.close()
+    }
+  })
+})
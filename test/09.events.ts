@@ -0,0 +1,62 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+/* global describe, it */
+import { expect } from 'chai'
+import Ldap, { PrometheusExporter, type LdapOperationEvent } from '../src'
+
+describe('pool observability tests', () => {
+  it('should emit events for connections and operations', async () => {
+    const eventClient = new Ldap({ poolSize: 1 })
+    const events: string[] = []
+    const operations: LdapOperationEvent[] = []
+    eventClient.on('connect', () => events.push('connect'))
+    eventClient.on('acquire', () => events.push('acquire'))
+    eventClient.on('release', () => events.push('release'))
+    eventClient.on('queued', () => events.push('queued'))
+    eventClient.on('operation', op => operations.push(op))
+    try {
+      await Promise.all([
+        eventClient.get('cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com'),
+        eventClient.setAttribute('cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com', 'description', 'Human')
+      ])
+      expect(events.filter(e => e === 'connect')).to.have.lengthOf(1)
+      expect(events.filter(e => e === 'queued')).to.have.lengthOf(1)
+      expect(events.filter(e => e === 'acquire')).to.have.lengthOf(2)
+      expect(events.filter(e => e === 'release')).to.have.lengthOf(2)
+      expect(operations.map(o => o.operation)).to.have.members(['search', 'modify'])
+      expect(operations.every(o => o.error == null)).to.be.true
+    } finally {
+      await eventClient.close()
+    }
+  })
+  it('should provide a snapshot of pool statistics', async () => {
+    const statsClient = new Ldap()
+    try {
+      await statsClient.get('cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com')
+      try {
+        await statsClient.get('ou=people,dc=planetexpress,dc=com', { scope: 'sub', filter: '(&(objectClass=person)(=Hubert)' })
+      } catch {}
+      const stats = statsClient.stats()
+      expect(stats.connections).to.equal(1)
+      expect(stats.busy).to.equal(0)
+      expect(stats.totals.connects).to.equal(1)
+      expect(stats.operations.search.count).to.equal(2)
+      expect(stats.operations.search.errors).to.equal(1)
+    } finally {
+      await statsClient.close()
+    }
+  })
+  it('should export prometheus metrics', async () => {
+    const metricsClient = new Ldap()
+    const exporter = new PrometheusExporter(metricsClient)
+    try {
+      await metricsClient.get('cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com')
+      const text = exporter.metrics()
+      expect(text).to.include('ldap_operations_total{operation="search",status="success"} 1')
+      expect(text).to.include('ldap_operation_duration_seconds_count{operation="search"} 1')
+      expect(text).to.match(/ldap_pool_connections\{state="idle"\} 1/)
+    } finally {
+      exporter.detach()
+      await metricsClient.close()
+    }
+  })
+})
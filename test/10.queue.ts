@@ -0,0 +1,49 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+/* global describe, it */
+import { expect } from 'chai'
+import Ldap, { LdapAcquireTimeoutError, LdapQueueFullError } from '../src'
+
+describe('pool queue tests', () => {
+  it('should time out when waiting too long for a connection', async () => {
+    const timeoutClient = new Ldap({ poolSize: 1, acquireTimeoutMs: 100 })
+    const held = await (timeoutClient as any).getClient()
+    try {
+      await timeoutClient.get('cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com')
+      expect.fail('should have timed out')
+    } catch (e: any) {
+      expect(e).to.be.an.instanceOf(LdapAcquireTimeoutError)
+    }
+    expect((timeoutClient as any).poolQueue).to.have.lengthOf(0)
+    ;(timeoutClient as any).release(held)
+    expect(held.busy).to.be.false
+    await timeoutClient.close()
+  })
+  it('should return a replacement connection to the pool when its waiter gave up', async () => {
+    const slowClient = new Ldap({ poolSize: 1, acquireTimeoutMs: 100 })
+    const held = await (slowClient as any).getClient()
+    const connect = (slowClient as any).connect.bind(slowClient)
+    ;(slowClient as any).connect = async () => await new Promise(resolve => setTimeout(resolve, 200)).then(connect)
+    const waiting = slowClient.get('cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com').catch(e => e)
+    await new Promise(resolve => setTimeout(resolve, 20))
+    ;(slowClient as any).release(held, true)
+    expect(await waiting).to.be.an.instanceOf(LdapAcquireTimeoutError)
+    await new Promise(resolve => setTimeout(resolve, 300))
+    expect(slowClient.stats()).to.include({ connections: 1, busy: 0 })
+    await slowClient.close()
+  })
+  it('should refuse to queue more than maxQueueLength requests', async () => {
+    const queueClient = new Ldap({ poolSize: 1, maxQueueLength: 1 })
+    const held = await (queueClient as any).getClient()
+    const waiting = queueClient.get('cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com')
+    try {
+      await queueClient.get('cn=Hermes Conrad,ou=people,dc=planetexpress,dc=com')
+      expect.fail('should have been refused')
+    } catch (e: any) {
+      expect(e).to.be.an.instanceOf(LdapQueueFullError)
+    }
+    ;(queueClient as any).release(held)
+    const fry = await waiting
+    expect(fry.one('givenName')).to.equal('Philip')
+    await queueClient.close()
+  })
+})
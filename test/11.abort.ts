@@ -0,0 +1,61 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+/* global describe, it */
+import { expect } from 'chai'
+import { Client } from 'ldapts'
+import Ldap, { LdapAbortError } from '../src'
+
+describe('abort tests', () => {
+  it('should find the ldapts internals that abandoning and watching rely on', () => {
+    // these are private to ldapts, so an upgrade could take them away without warning
+    const client = new Client({ url: 'ldap://localhost' }) as any
+    expect(client.messageDetailsByMessageId).to.be.an.instanceOf(Map)
+    expect(client._send).to.be.a('function')
+    expect(client._nextMessageId).to.be.a('function')
+    expect(client.messageParser?._getMessageFromProtocolOperation).to.be.a('function')
+  })
+  it('should reject immediately when the signal is already aborted', async () => {
+    const abortClient = new Ldap()
+    try {
+      await abortClient.get('cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com', { signal: AbortSignal.abort() })
+      expect.fail('should have been aborted')
+    } catch (e: any) {
+      expect(e).to.be.an.instanceOf(LdapAbortError)
+      expect(e.name).to.equal('AbortError')
+    }
+    await abortClient.close()
+  })
+  it('should leave the queue when aborted while waiting for a connection', async () => {
+    const abortClient = new Ldap({ poolSize: 1 })
+    const held = await (abortClient as any).getClient()
+    const controller = new AbortController()
+    const waiting = abortClient.setAttribute('cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com', 'description', 'never written', { signal: controller.signal })
+    expect((abortClient as any).poolQueue).to.have.lengthOf(1)
+    controller.abort(new Error('client went away'))
+    try {
+      await waiting
+      expect.fail('should have been aborted')
+    } catch (e: any) {
+      expect(e).to.be.an.instanceOf(LdapAbortError)
+      expect(e.reason.message).to.equal('client went away')
+    }
+    expect((abortClient as any).poolQueue).to.have.lengthOf(0)
+    ;(abortClient as any).release(held)
+    expect(held.busy).to.be.false
+    await abortClient.close()
+  })
+  it('should abort a stream and release its connection', async () => {
+    const abortClient = new Ldap({ poolSize: 1 })
+    const controller = new AbortController()
+    const stream = abortClient.stream('ou=people,dc=planetexpress,dc=com', { scope: 'sub', filter: 'objectClass=inetOrgPerson', signal: controller.signal })
+    controller.abort()
+    try {
+      for await (const person of stream) expect(person).to.be.undefined
+      expect.fail('should have been aborted')
+    } catch (e: any) {
+      expect(e).to.be.an.instanceOf(LdapAbortError)
+    }
+    const fry = await abortClient.get('cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com')
+    expect(fry.one('givenName')).to.equal('Philip')
+    await abortClient.close()
+  })
+})
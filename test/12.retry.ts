@@ -0,0 +1,61 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+/* global describe, it */
+import { expect } from 'chai'
+import { NoSuchObjectError } from 'ldapts'
+import Ldap from '../src'
+
+describe('retry tests', () => {
+  it('should replace a dropped connection and retry a read', async () => {
+    const retryClient = new Ldap({ poolSize: 1, retry: { attempts: 2, backoffMs: 1 } })
+    await retryClient.wait()
+    const original = (retryClient as any).clients[0]
+    const retries: any[] = []
+    retryClient.on('retry', info => retries.push(info))
+    retryClient.once('acquire', () => { original.socket.destroy() })
+    const fry = await retryClient.get('cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com')
+    expect(fry.one('givenName')).to.equal('Philip')
+    expect(retries).to.have.lengthOf(1)
+    expect(retries[0].operation).to.equal('search')
+    expect((retryClient as any).clients).to.have.lengthOf(1)
+    expect((retryClient as any).clients[0]).not.to.equal(original)
+    await retryClient.close()
+  })
+  it('should give up after the configured number of attempts', async () => {
+    const retryClient = new Ldap({ retry: { attempts: 3, backoffMs: 1, errors: [NoSuchObjectError] } })
+    let retries = 0
+    retryClient.on('retry', () => { retries++ })
+    try {
+      await retryClient.get('cn=Nobody,ou=people,dc=planetexpress,dc=com')
+      expect.fail('should have thrown')
+    } catch (e: any) {
+      expect(e).to.be.an.instanceOf(NoSuchObjectError)
+    }
+    expect(retries).to.equal(2)
+    await retryClient.close()
+  })
+  it('should only retry writes when asked to', async () => {
+    const readsOnly = new Ldap({ retry: { attempts: 3, backoffMs: 1, errors: [NoSuchObjectError] } })
+    const readsAndWrites = new Ldap({ retry: { attempts: 3, backoffMs: 1, errors: [NoSuchObjectError], writes: true } })
+    let readRetries = 0
+    let writeRetries = 0
+    readsOnly.on('retry', () => { readRetries++ })
+    readsAndWrites.on('retry', () => { writeRetries++ })
+    await readsOnly.setAttribute('cn=Nobody,ou=people,dc=planetexpress,dc=com', 'description', 'test').catch(() => {})
+    await readsAndWrites.setAttribute('cn=Nobody,ou=people,dc=planetexpress,dc=com', 'description', 'test').catch(() => {})
+    expect(readRetries).to.equal(0)
+    expect(writeRetries).to.equal(2)
+    await readsOnly.close()
+    await readsAndWrites.close()
+  })
+  it('should not retry the reads inside a write that is already retrying', async () => {
+    const retryClient = new Ldap({ retry: { attempts: 3, backoffMs: 1, errors: [NoSuchObjectError], writes: true } })
+    let retries = 0
+    retryClient.on('retry', () => { retries++ })
+    await retryClient.pushAttribute('cn=Nobody,ou=people,dc=planetexpress,dc=com', 'description', 'test').catch(() => {})
+    expect(retries).to.equal(2)
+    retries = 0
+    await retryClient.setAttribute('cn=Nobody,ou=people,dc=planetexpress,dc=com', 'description', 'test', { validate: true }).catch(() => {})
+    expect(retries).to.equal(2)
+    await retryClient.close()
+  })
+})
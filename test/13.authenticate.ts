@@ -0,0 +1,41 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+/* global describe, it */
+import { expect } from 'chai'
+import ldap from '../src/client'
+
+const base = 'ou=people,dc=planetexpress,dc=com'
+
+describe('authenticate tests', () => {
+  it('should authenticate a user with the right password', async () => {
+    const result = await ldap.authenticate('fry', 'fry', { base })
+    expect(result.success).to.be.true
+    if (result.success) expect(result.entry.one('givenName')).to.equal('Philip')
+  })
+  it('should refuse a wrong password', async () => {
+    const result = await ldap.authenticate('fry', 'leela', { base })
+    expect(result.success).to.be.false
+    if (!result.success) expect(result.reason).to.equal('badpassword')
+  })
+  it('should refuse an empty password', async () => {
+    const result = await ldap.authenticate('fry', '', { base })
+    expect(result.success).to.be.false
+    if (!result.success) expect(result.reason).to.equal('badpassword')
+  })
+  it('should report a user that does not exist', async () => {
+    const result = await ldap.authenticate('nibbler', 'nibbler', { base })
+    expect(result.success).to.be.false
+    if (!result.success) expect(result.reason).to.equal('notfound')
+  })
+  it('should authenticate with a custom filter', async () => {
+    const result = await ldap.authenticate('leela@planetexpress.com', 'leela', { base, filter: username => ldap.filter`(mail=${username})` })
+    expect(result.success).to.be.true
+  })
+  it('should leave the pool bound as the service account in rebind mode', async () => {
+    const bad = await ldap.authenticate('fry', 'leela', { base, mode: 'rebind' })
+    expect(bad.success).to.be.false
+    const good = await ldap.authenticate('fry', 'fry', { base, mode: 'rebind' })
+    expect(good.success).to.be.true
+    // fry may not write to the professor's entry, so this proves we are bound as the admin again
+    expect(await ldap.setAttribute('cn=Hubert J. Farnsworth,ou=people,dc=planetexpress,dc=com', 'cn', 'Hubert J. Farnsworth')).to.be.true
+  })
+})
@@ -0,0 +1,27 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+/* global describe, it */
+import { expect } from 'chai'
+import ldap from '../src/client'
+import { ProxiedAuthorizationControl } from '../src'
+
+describe('proxied authorization tests', () => {
+  it('should attach the proxied authorization control in a scoped view', async () => {
+    const scoped = ldap.as('cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com')
+    const controls = (scoped as any).withScopeControls()
+    expect(controls).to.have.lengthOf(1)
+    expect(controls[0]).to.be.an.instanceOf(ProxiedAuthorizationControl)
+    expect(controls[0].authzId).to.equal('dn:cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com')
+    expect(controls[0].critical).to.be.true
+    expect((ldap as any).withScopeControls()).to.have.lengthOf(0)
+  })
+  it('should leave authorization IDs that already have a prefix alone', async () => {
+    const controls = (ldap.as('u:fry') as any).withScopeControls()
+    expect(controls[0].authzId).to.equal('u:fry')
+  })
+  it('should share the pool with the original instance', async () => {
+    await ldap.get('cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com')
+    const scoped = ldap.as('cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com')
+    expect((scoped as any).clients).to.equal((ldap as any).clients)
+    expect(scoped.stats().connections).to.equal(ldap.stats().connections)
+  })
+})
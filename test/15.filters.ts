@@ -0,0 +1,68 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+/* global describe, it */
+import { expect } from 'chai'
+import { AndFilter, EqualityFilter, ExtensibleFilter, NotFilter, PresenceFilter, SubstringFilter } from 'ldapts'
+import ldap from '../src/client'
+import { Filters, LdapFilterSyntaxError, normalizeFilter, parseFilter } from '../src'
+
+describe('filter tests', () => {
+  it('should build filters and escape their values', () => {
+    const filter = Filters.and(
+      Filters.eq('objectClass', 'person'),
+      Filters.not(Filters.present('mail')),
+      Filters.gte('uidNumber', 1000),
+      Filters.startsWith('cn', 'Fry (*)')
+    )
+    expect(filter.toString()).to.equal('(&(objectClass=person)(!(mail=*))(uidNumber>=1000)(cn=Fry \\28\\2a\\29*))')
+  })
+  it('should parse every kind of filter item', () => {
+    const filter = parseFilter('(&(cn=Fry)(!(mail=*))(sn=Ro*ri*guez)(uidNumber>=1000)(uidNumber<=2000)(givenName~=Philip)(cn:dn:caseExactMatch:=Fry))')
+    expect(filter).to.be.an.instanceOf(AndFilter)
+    const members = (filter as AndFilter).filters
+    expect(members[0]).to.be.an.instanceOf(EqualityFilter)
+    expect(members[1]).to.be.an.instanceOf(NotFilter)
+    expect((members[1] as NotFilter).filter).to.be.an.instanceOf(PresenceFilter)
+    expect(members[2]).to.be.an.instanceOf(SubstringFilter)
+    expect((members[2] as SubstringFilter).initial).to.equal('Ro')
+    expect((members[2] as SubstringFilter).any).to.deep.equal(['ri'])
+    expect((members[2] as SubstringFilter).final).to.equal('guez')
+    expect(members[6]).to.be.an.instanceOf(ExtensibleFilter)
+    expect((members[6] as ExtensibleFilter).dnAttributes).to.be.true
+    expect((members[6] as ExtensibleFilter).rule).to.equal('caseExactMatch')
+    expect(filter.toString()).to.equal('(&(cn=Fry)(!(mail=*))(sn=Ro*ri*guez)(uidNumber>=1000)(uidNumber<=2000)(givenName~=Philip)(cn:dn:caseExactMatch:=Fry))')
+  })
+  it('should decode escaped UTF-8 and binary values', () => {
+    expect((parseFilter('(cn=Andr\\c3\\a9)') as EqualityFilter).value).to.equal('André')
+    const guid = parseFilter('(objectGUID=\\ff\\00\\fe)') as EqualityFilter
+    expect(Buffer.isBuffer(guid.value)).to.be.true
+    expect(guid.toString()).to.equal('(objectGUID=\\ff\\00\\fe)')
+  })
+  it('should accept attribute options, OIDs, and a missing outer paren', () => {
+    expect(parseFilter('(userCertificate;binary=*)')).to.be.an.instanceOf(PresenceFilter)
+    expect((parseFilter('(2.5.4.3=Fry)') as EqualityFilter).attribute).to.equal('2.5.4.3')
+    expect(parseFilter('cn=Fry').toString()).to.equal('(cn=Fry)')
+  })
+  it('should point at the problem in a malformed filter', () => {
+    for (const [filter, position] of [['(cn=Fry', 7], ['(&(cn=Fry)(sn=Rodriguez)', 24], ['(cn=Fr(y)', 6], ['(cn=\\zz)', 4], ['(=Fry)', 1], ['(cn=Fry))', 8]] as const) {
+      try {
+        parseFilter(filter)
+        expect.fail(`should not have parsed ${filter}`)
+      } catch (e: any) {
+        expect(e).to.be.an.instanceOf(LdapFilterSyntaxError)
+        expect(e.position).to.equal(position)
+      }
+    }
+  })
+  it('should normalize filters', () => {
+    const normalized = normalizeFilter('(&(&(CN=Fry)(sn=Rodriguez))(cn=Fry)(!(!(mail=*))))')
+    expect(normalized.toString()).to.equal('(&(cn=Fry)(sn=Rodriguez)(mail=*))')
+    expect(normalizeFilter('(|(cn=Fry))').toString()).to.equal('(cn=Fry)')
+    expect(normalizeFilter('(|(uid=Fry)(UID=fry)(uid=fry))').toString()).to.equal('(|(uid=Fry)(uid=fry))')
+  })
+  it('should narrow a user-supplied filter', async () => {
+    const userFilter = '(|(givenName=Philip)(givenName=Hubert))'
+    const people = await ldap.search('ou=people,dc=planetexpress,dc=com', { scope: 'sub', filter: Filters.and(userFilter, Filters.eq('sn', 'Fry')) })
+    expect(people).to.have.lengthOf(1)
+    expect(people[0].one('givenName')).to.equal('Philip')
+  })
+})
@@ -0,0 +1,43 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+/* global describe, it */
+import { expect } from 'chai'
+import { BerReader, BerWriter } from 'asn1'
+import ldap from '../src/client'
+import { VirtualListViewRequestControl, VirtualListViewResponseControl } from '../src'
+
+const base = 'ou=people,dc=planetexpress,dc=com'
+const filter = '(objectClass=inetOrgPerson)'
+
+describe('sorted page tests', () => {
+  it('should encode a virtual list view request', () => {
+    const writer = new BerWriter()
+    new VirtualListViewRequestControl({ offset: 61, count: 20 }, { critical: true }).write(writer)
+    expect(writer.buffer.toString('hex').endsWith('0410300e020100020113a00602013d020100')).to.be.true
+  })
+  it('should parse a virtual list view response', () => {
+    const writer = new BerWriter()
+    writer.startSequence()
+    writer.writeInt(61)
+    writer.writeInt(500)
+    writer.writeEnumeration(0)
+    writer.writeBuffer(Buffer.from('abc'), 0x04)
+    writer.endSequence()
+    const response = new VirtualListViewResponseControl()
+    response.parse(new BerReader(writer.buffer))
+    expect(response.targetPosition).to.equal(61)
+    expect(response.contentCount).to.equal(500)
+    expect(response.result).to.equal(0)
+    expect(response.contextID?.toString()).to.equal('abc')
+  })
+  it('should return a sorted page of results', async () => {
+    const page = await ldap.searchPage(base, { filter, sort: 'sn', offset: 2, count: 2 })
+    expect(page.entries.map(e => e.one('sn'))).to.deep.equal(['Fry', 'Rodriguez'])
+    expect(page.offset).to.equal(2)
+    expect(page.total).to.equal(7)
+  })
+  it('should sort in reverse', async () => {
+    const page = await ldap.searchPage(base, { filter, sort: '-sn', count: 1, attributes: ['cn', 'sn'] })
+    expect(page.entries).to.have.lengthOf(1)
+    expect(page.entries[0].one('sn')).to.equal('Zoidberg')
+  })
+})
@@ -0,0 +1,80 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+/* global describe, it */
+import { expect } from 'chai'
+import type { PersistentSearchControl } from 'ldapts'
+import ldap from '../src/client'
+import Ldap from '../src'
+import { decodeWatchCookie, encodeWatchCookie, type LdapRawChange, watchControlTypes, watchMechanisms } from '../src/watch'
+
+const base = 'ou=people,dc=planetexpress,dc=com'
+const fry = 'cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com'
+
+describe('watch tests', () => {
+  it('should round trip a watch cookie', () => {
+    const cookie = encodeWatchCookie('sync', Buffer.from('rid=001,csn=20240101000000.000000Z#000000#000#000000'))
+    expect(cookie.startsWith('sync:')).to.be.true
+    const decoded = decodeWatchCookie(cookie)
+    expect(decoded.mechanism).to.equal('sync')
+    expect(decoded.value.toString()).to.equal('rid=001,csn=20240101000000.000000Z#000000#000#000000')
+  })
+  it('should reject a cookie from something else', () => {
+    expect(() => decodeWatchCookie('nonsense')).to.throw()
+  })
+  it('should back off when the server keeps ending the watch', async function () {
+    this.timeout(5000)
+    const endingClient = new Ldap()
+    ;(endingClient as any).getClient = async () => ({ server: { url: 'ldap://ending' }, unbind: async () => {} })
+    const starts: number[] = []
+    const sync = watchMechanisms.sync
+    watchMechanisms.sync = async () => { starts.push(Date.now()) }
+    try {
+      const watcher = endingClient.watch(base, { mechanism: 'sync', signal: AbortSignal.timeout(3500) })
+      await watcher.next().catch(() => {})
+      // started right away, then 1 and 2 seconds after that, the next would be 4 seconds later
+      expect(starts).to.have.lengthOf(3)
+      expect(starts[2] - starts[1]).to.be.greaterThan(1900)
+    } finally {
+      watchMechanisms.sync = sync
+      await endingClient.close()
+    }
+  })
+  it('should not report existing entries again when a persistent search reconnects', async () => {
+    const existing = [`cn=a,${base}`, `cn=b,${base}`]
+    const pending = new Map<string, any>()
+    // a server that drops the connection right after sending the existing entries, when asked for them
+    const client = {
+      messageDetailsByMessageId: pending,
+      search: async (_base: string, _options: unknown, controls: PersistentSearchControl[]) => {
+        const id = String(pending.size)
+        pending.set(id, { message: { controls } })
+        await new Promise(resolve => setTimeout(resolve, 0))
+        if (!controls[0].value?.changesOnly) {
+          for (const name of existing) pending.get(id).searchEntries.push({ name, controls: [], toObject: () => ({ dn: name }) })
+        }
+        pending.delete(id)
+        throw new Error('Connection closed')
+      }
+    }
+    const changes: LdapRawChange[] = []
+    const state = { reporting: true, uuids: new Map<string, string>() }
+    for (let i = 0; i < 3; i++) {
+      await watchMechanisms.psearch({ client: client as any, base, options: { explicitBufferAttributes: [] }, state, emit: change => { changes.push(change) }, stopped: () => false }).catch(() => {})
+    }
+    expect(changes.filter(c => c.type === 'add').map(c => c.dn)).to.deep.equal(existing)
+  })
+  it('should report a modification', async function () {
+    this.timeout(10000)
+    const root = await ldap.get('', { scope: 'base', filter: '(objectClass=*)', attributes: ['supportedControl'] })
+    const supported = root?.all('supportedControl') ?? []
+    if (!Object.values(watchControlTypes).some(oid => supported.includes(oid))) this.skip()
+    const watcher = ldap.watch(base, { changesOnly: true, filter: '(objectClass=inetOrgPerson)' })
+    const next = watcher.next()
+    await new Promise(resolve => setTimeout(resolve, 500))
+    await ldap.setAttribute(fry, 'description', 'watched')
+    const { value } = await next
+    expect(value.type).to.equal('modify')
+    expect(value.dn?.toLowerCase()).to.equal(fry.toLowerCase())
+    expect(value.entry?.get('description')).to.equal('watched')
+    await watcher.return(undefined)
+  })
+})
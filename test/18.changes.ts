@@ -0,0 +1,60 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+/* global describe, it */
+import { expect } from 'chai'
+import ldap from '../src/client'
+import { LdapEntry } from '../src'
+import { WatermarkTracker } from '../src/changes'
+
+const base = 'ou=people,dc=planetexpress,dc=com'
+const filter = '(objectClass=inetOrgPerson)'
+const fry = 'cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com'
+
+function entry (dn: string, modifyTimestamp: string) {
+  return new LdapEntry({ dn, modifyTimestamp }, ldap)
+}
+
+describe('changesSince tests', () => {
+  it('should not report an entry twice for the same timestamp', () => {
+    const first = new WatermarkTracker(undefined, {})
+    expect(first.see(entry('cn=a', '20240101120000Z'))).to.be.true
+    expect(first.see(entry('cn=b', '20240101115000Z'))).to.be.true
+    const watermark = first.watermark()
+    expect(watermark.value).to.equal('2024-01-01T12:00:00.000Z')
+    expect(Object.keys(watermark.recent)).to.deep.equal(['cn=a'])
+    const second = new WatermarkTracker(watermark, {})
+    expect(second.filter(filter).toString()).to.equal('(&(objectClass=inetOrgPerson)(modifyTimestamp>=20240101115955.0Z))')
+    expect(second.see(entry('cn=a', '20240101120000Z'))).to.be.false
+    expect(second.see(entry('cn=c', '20240101120000Z'))).to.be.true
+    expect(second.see(entry('cn=a', '20240101120001Z'))).to.be.true
+  })
+  it('should track the highest uSNChanged', () => {
+    const tracker = new WatermarkTracker({ attribute: 'uSNChanged', value: '100', recent: {} }, {})
+    expect(tracker.filter().toString()).to.equal('(uSNChanged>=101)')
+    tracker.see(new LdapEntry({ dn: 'cn=a', uSNChanged: '150' }, ldap))
+    tracker.see(new LdapEntry({ dn: 'cn=b', uSNChanged: '120' }, ldap))
+    expect(tracker.watermark().value).to.equal('150')
+  })
+  it('should find changes and deletions since a watermark', async function () {
+    this.timeout(10000)
+    const first = ldap.changesSince(base, undefined, { filter, detectDeletes: true })
+    const initial: LdapEntry[] = []
+    for await (const e of first) initial.push(e)
+    const { watermark } = await first.result
+    expect(initial.length).to.be.greaterThan(0)
+    expect(watermark.dns).to.have.lengthOf(initial.length)
+
+    const unchanged = ldap.changesSince(base, watermark, { filter })
+    for await (const e of unchanged) expect.fail(`${e.dn} was reported twice`)
+
+    // timestamps only have one second resolution
+    await new Promise(resolve => setTimeout(resolve, 1100))
+    await ldap.setAttribute(fry, 'description', 'changed')
+    const second = ldap.changesSince(base, watermark, { filter, detectDeletes: true })
+    const changed: LdapEntry[] = []
+    for await (const e of second) changed.push(e)
+    const result = await second.result
+    expect(changed.map(e => e.dn.toLowerCase())).to.deep.equal([fry.toLowerCase()])
+    expect(result.deleted).to.deep.equal([])
+    expect(new Date(result.watermark.value).getTime()).to.be.greaterThan(new Date(watermark.value).getTime())
+  })
+})
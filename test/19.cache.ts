@@ -0,0 +1,101 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+/* global describe, it */
+import { expect } from 'chai'
+import Ldap, { MemoryCacheStore } from '../src'
+import { LdapCache } from '../src/cache'
+
+const fry = 'cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com'
+const group = 'cn=ship_crew,ou=people,dc=planetexpress,dc=com'
+
+describe('cache tests', () => {
+  it('should drop the least recently used entries', () => {
+    const store = new MemoryCacheStore(2)
+    store.set('a', [], 1000)
+    store.set('b', [], 1000)
+    store.get('a')
+    store.set('c', [], 1000)
+    expect(store.get('a')).to.deep.equal([])
+    expect(store.get('b')).to.be.undefined
+    expect(store.get('c')).to.deep.equal([])
+  })
+  it('should expire entries', async () => {
+    const store = new MemoryCacheStore()
+    store.set('a', [], 10)
+    await new Promise(resolve => setTimeout(resolve, 20))
+    expect(store.get('a')).to.be.undefined
+  })
+  it('should invalidate results that depend on a DN or its ancestors', async () => {
+    const cache = new LdapCache({})
+    await cache.set('people', [], ['ou=people,dc=planetexpress,dc=com'])
+    await cache.set('fry', [], [fry])
+    await cache.set('leela', [], ['cn=Turanga Leela,ou=people,dc=planetexpress,dc=com'])
+    await cache.invalidate('CN=Philip J. Fry, OU=people, DC=planetexpress, DC=com')
+    expect(await cache.get('people')).to.be.undefined
+    expect(await cache.get('fry')).to.be.undefined
+    expect(await cache.get('leela')).to.deep.equal([])
+  })
+  it('should invalidate results that depend on the root of the tree', async () => {
+    const cache = new LdapCache({})
+    await cache.set('root', [], [''])
+    await cache.invalidate(fry)
+    expect(await cache.get('root')).to.be.undefined
+  })
+  it('should forget expired results that were cached after longer lived ones', async () => {
+    const cache = new LdapCache({})
+    await cache.set('long', [], [fry], 60000)
+    await cache.set('short', [], [group], 1)
+    await new Promise(resolve => setTimeout(resolve, 10))
+    await cache.set('other', [], [fry])
+    expect((cache as any).keys.has('short')).to.be.false
+    expect((cache as any).keysByDN.has(group)).to.be.false
+    expect((cache as any).keys.has('long')).to.be.true
+  })
+  it('should key cached searches by every option that changes the result', async () => {
+    const cacheClient = new Ldap({ cache: {} })
+    const [namesOnly] = await cacheClient.search(fry, { scope: 'base', returnAttributeValues: false })
+    expect(namesOnly.get('sn')).to.be.undefined
+    const [full] = await cacheClient.search(fry, { scope: 'base' })
+    expect(full.get('sn')).to.equal('Fry')
+    await cacheClient.close()
+  })
+  it('should serve a search with reused options from the cache', async () => {
+    const cacheClient = new Ldap({ cache: {} })
+    const events: string[] = []
+    cacheClient.on('operation', ({ operation }) => events.push(operation))
+    const options = { scope: 'base' as const }
+    await cacheClient.search(fry, options)
+    await cacheClient.search(fry, options)
+    expect(options).to.deep.equal({ scope: 'base' })
+    expect(events).to.deep.equal(['search'])
+    await cacheClient.close()
+  })
+  it('should serve repeated reads from the cache until a write', async () => {
+    const cacheClient = new Ldap({ cache: { ttlMs: 60000 } })
+    const events: string[] = []
+    cacheClient.on('operation', ({ operation }) => events.push(operation))
+    const first = await cacheClient.get(fry)
+    const second = await cacheClient.get(fry)
+    expect(second.dn).to.equal(first.dn)
+    expect(second.get('sn')).to.equal('Fry')
+    expect(events).to.deep.equal(['search'])
+    await cacheClient.setAttribute(fry, 'description', 'cached')
+    const third = await cacheClient.get(fry)
+    expect(third.get('description')).to.equal('cached')
+    await cacheClient.get(fry, { cacheTtlMs: 0 })
+    expect(events).to.deep.equal(['search', 'modify', 'search', 'search'])
+    await cacheClient.close()
+  })
+  it('should invalidate cached members when a member is added', async () => {
+    const cacheClient = new Ldap({ cache: {} })
+    const before = await cacheClient.getMembers(group)
+    const leela = 'cn=Turanga Leela,ou=people,dc=planetexpress,dc=com'
+    const added = !before.some(m => m.dn === leela)
+    if (added) await cacheClient.addMember(leela, group)
+    else await cacheClient.removeMember(leela, group)
+    const after = await cacheClient.getMembers(group)
+    expect(after.some(m => m.dn === leela)).to.equal(added)
+    if (added) await cacheClient.removeMember(leela, group)
+    else await cacheClient.addMember(leela, group)
+    await cacheClient.close()
+  })
+})
@@ -0,0 +1,36 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+/* global describe, it */
+import { expect } from 'chai'
+import Ldap from '../src'
+
+const base = 'ou=people,dc=planetexpress,dc=com'
+
+describe('loadBy tests', () => {
+  it('should combine lookups made in the same tick into one search', async () => {
+    const loadClient = new Ldap()
+    let searches = 0
+    loadClient.on('operation', ({ operation }) => { if (operation === 'search') searches++ })
+    const [fry, leela, nobody] = await Promise.all([
+      loadClient.loadBy(base, 'uid', 'fry'),
+      loadClient.loadBy(base, 'uid', 'LEELA'),
+      loadClient.loadBy(base, 'uid', 'nobody')
+    ])
+    expect(fry?.get('sn')).to.equal('Fry')
+    expect(leela?.get('givenName')).to.equal('Leela')
+    expect(nobody).to.be.undefined
+    expect(searches).to.equal(1)
+    await loadClient.close()
+  })
+  it('should return results in order with loadMany', async () => {
+    const loadClient = new Ldap()
+    const entries = await loadClient.loadMany(base, 'uid', ['leela', 'nobody', 'fry'], { filter: '(objectClass=inetOrgPerson)', attributes: ['sn'] })
+    expect(entries.map(e => e?.get('sn'))).to.deep.equal(['Turanga', undefined, 'Fry'])
+    await loadClient.close()
+  })
+  it('should return every match when asked', async () => {
+    const loadClient = new Ldap()
+    const people = await loadClient.loadBy(base, 'objectClass', 'inetOrgPerson', { all: true })
+    expect(people.length).to.be.greaterThan(1)
+    await loadClient.close()
+  })
+})
@@ -0,0 +1,44 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+/* global describe, it */
+import { expect } from 'chai'
+import ldap from '../src/client'
+import { parseAttributeType, parseObjectClass, parseSchemaDescription } from '../src/schema'
+
+describe('schema tests', () => {
+  it('should parse a schema description', () => {
+    const { oid, fields } = parseSchemaDescription("( 2.5.6.6 NAME 'person' DESC 'RFC2256: a person' SUP top STRUCTURAL MUST ( sn $ cn ) MAY ( userPassword $ telephoneNumber ) X-ORIGIN 'RFC 4519' )")
+    expect(oid).to.equal('2.5.6.6')
+    expect(fields.get('NAME')).to.deep.equal(['person'])
+    expect(fields.get('DESC')).to.deep.equal(['RFC2256: a person'])
+    expect(fields.get('STRUCTURAL')).to.deep.equal([])
+    expect(fields.get('MUST')).to.deep.equal(['sn', 'cn'])
+    expect(fields.get('X-ORIGIN')).to.deep.equal(['RFC 4519'])
+  })
+  it('should parse an attribute type', () => {
+    const at = parseAttributeType("( 0.9.2342.19200300.100.1.1 NAME ( 'uid' 'userid' ) DESC 'it\\27s a user id' EQUALITY caseIgnoreMatch SYNTAX 1.3.6.1.4.1.1466.115.121.1.15{256} SINGLE-VALUE )")
+    expect(at.names).to.deep.equal(['uid', 'userid'])
+    expect(at.description).to.equal("it's a user id")
+    expect(at.syntax).to.equal('1.3.6.1.4.1.1466.115.121.1.15')
+    expect(at.syntaxLength).to.equal(256)
+    expect(at.singleValue).to.be.true
+    expect(at.usage).to.equal('userApplications')
+  })
+  it('should parse an object class', () => {
+    const oc = parseObjectClass("( 2.5.6.0 NAME 'top' ABSTRACT MUST objectClass )")
+    expect(oc.kind).to.equal('abstract')
+    expect(oc.must).to.deep.equal(['objectClass'])
+  })
+  it('should retrieve the RootDSE', async () => {
+    const rootDSE = await ldap.getRootDSE()
+    expect(rootDSE.namingContexts).to.include('dc=planetexpress,dc=com')
+    expect(rootDSE.supportedLDAPVersion).to.include(3)
+  })
+  it('should retrieve the schema with inheritance resolved', async () => {
+    const schema = await ldap.getSchema()
+    const inetOrgPerson = schema.objectClass('InetOrgPerson')!
+    expect(inetOrgPerson.superiors.map(s => s.name)).to.deep.equal(['organizationalPerson'])
+    expect(inetOrgPerson.allMust).to.include.members(['sn', 'cn', 'objectClass'])
+    expect(schema.attributeType('givenName')?.equality).to.equal('caseIgnoreMatch')
+    expect(await ldap.getSchema()).to.equal(schema)
+  })
+})
@@ -0,0 +1,67 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+/* global describe, it */
+import { expect } from 'chai'
+import ldap from '../src/client'
+import Ldap, { LdapEntry, LdapSchema, LdapSchemaValidationError } from '../src'
+import { validateEntry } from '../src/validate'
+
+const fry = 'cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com'
+
+const schema = new LdapSchema(new LdapEntry({
+  dn: 'cn=schema',
+  attributeTypes: [
+    "( 2.5.4.0 NAME 'objectClass' EQUALITY objectIdentifierMatch SYNTAX 1.3.6.1.4.1.1466.115.121.1.38 )",
+    "( 2.5.4.41 NAME 'name' EQUALITY caseIgnoreMatch SYNTAX 1.3.6.1.4.1.1466.115.121.1.15{32768} )",
+    "( 2.5.4.3 NAME ( 'cn' 'commonName' ) SUP name )",
+    "( 2.5.4.4 NAME ( 'sn' 'surname' ) SUP name )",
+    "( 2.16.840.1.113730.3.1.241 NAME 'displayName' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 SINGLE-VALUE )",
+    "( 1.3.6.1.4.1.9999.1 NAME 'age' SYNTAX 1.3.6.1.4.1.1466.115.121.1.27 )"
+  ],
+  objectClasses: [
+    "( 2.5.6.0 NAME 'top' ABSTRACT MUST objectClass )",
+    "( 2.5.6.6 NAME 'person' SUP top STRUCTURAL MUST ( sn $ cn ) MAY ( displayName $ age ) )"
+  ]
+}, ldap))
+
+describe('schema validation tests', () => {
+  it('should accept a valid entry', () => {
+    expect(validateEntry(schema, { objectClass: ['person'], commonName: ['Fry'], sn: ['Fry'], age: ['25'] })).to.deep.equal([])
+  })
+  it('should report each kind of violation', () => {
+    const violations = validateEntry(schema, { objectClass: ['person', 'robot'], cn: ['Bender'], displayName: ['Bender', 'Bending Unit 22'], age: ['old'], mail: ['bender@planetexpress.com'] })
+    expect(violations.map(v => `${v.kind} ${v.attribute}`)).to.have.members([
+      'unknownAttribute mail',
+      'singleValue displayName',
+      'unknownObjectClass robot',
+      'missing sn',
+      'syntax age'
+    ])
+  })
+  it('should validate the values of an add as they will be sent', async () => {
+    // a second pass through this codec would break the age's syntax
+    const codecClient = new Ldap({ host: 'nonexistent.invalid', codecs: { age: { decode: Number, encode: (value: unknown) => typeof value === 'number' ? String(value) : 'encoded twice' } } })
+    codecClient.getSchema = async () => schema
+    const e = await codecClient.add('cn=Kif Kroker,ou=people,dc=planetexpress,dc=com', { objectClass: 'person', cn: 'Kif Kroker', sn: 'Kroker', age: 25 }, { validate: true }).catch(e => e)
+    expect(e).not.to.be.an.instanceOf(LdapSchemaValidationError)
+    await codecClient.close()
+  })
+  it('should validate an add against the server schema', async () => {
+    const violations = await ldap.validate('cn=Nibbler,ou=people,dc=planetexpress,dc=com', { objectClass: ['inetOrgPerson'], cn: 'Nibbler', favoriteSnack: 'everything' })
+    expect(violations.map(v => v.kind)).to.have.members(['missing', 'unknownAttribute'])
+    try {
+      await ldap.add('cn=Nibbler,ou=people,dc=planetexpress,dc=com', { objectClass: ['inetOrgPerson'], cn: 'Nibbler' }, { validate: true })
+      expect.fail('should have thrown')
+    } catch (e: any) {
+      expect(e).to.be.instanceOf(LdapSchemaValidationError)
+      expect(e.violations[0].attribute).to.equal('sn')
+    }
+  })
+  it('should validate changes against the entry as it would be', async () => {
+    const violations = await ldap.validate(fry, [
+      { operation: 'replace', modification: { type: 'displayName', values: ['Fry', 'Philip'] } },
+      { operation: 'delete', modification: { type: 'sn' } }
+    ])
+    expect(violations.map(v => `${v.kind} ${v.attribute}`)).to.have.members(['singleValue displayName', 'missing sn'])
+    expect(await ldap.validate(fry, [{ operation: 'replace', modification: { type: 'description', values: ['fine'] } }])).to.deep.equal([])
+  })
+})
@@ -0,0 +1,62 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+/* global describe, it */
+import { expect } from 'chai'
+import Ldap, { LdapCodecs, LdapEntry } from '../src'
+
+const fry = 'cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com'
+
+describe('codec tests', () => {
+  it('should round trip a GUID', () => {
+    const buf = Buffer.from('e004253f894fd3119a0c0305e82c3301', 'hex')
+    expect(LdapCodecs.guid.decode(buf)).to.equal('3f2504e0-4f89-11d3-9a0c-0305e82c3301')
+    expect(LdapCodecs.guid.encode('3f2504e0-4f89-11d3-9a0c-0305e82c3301')).to.deep.equal(buf)
+  })
+  it('should round trip a SID', () => {
+    const sid = 'S-1-5-21-1004336348-1177238915-682003330-512'
+    const buf = LdapCodecs.sid.encode(sid) as Buffer
+    expect(buf.length).to.equal(28)
+    expect(LdapCodecs.sid.decode(buf)).to.equal(sid)
+  })
+  it('should pass already encoded values through', () => {
+    const buf = Buffer.from('e004253f894fd3119a0c0305e82c3301', 'hex')
+    expect(LdapCodecs.guid.encode(buf as any)).to.equal(buf)
+    expect(LdapCodecs.sid.encode(buf as any)).to.equal(buf)
+    expect(LdapCodecs.integer.encode('9223372036854775807' as any)).to.equal('9223372036854775807')
+    expect(LdapCodecs.boolean.encode('FALSE' as any)).to.equal('FALSE')
+    const encoded = LdapCodecs.json.encode({ favorite: 'Slurm' })
+    expect(LdapCodecs.json.encode(encoded)).to.equal('{"favorite":"Slurm"}')
+    expect(LdapCodecs.json.encode('Slurm')).to.equal('"Slurm"')
+  })
+  it('should refuse to encode something that is not a number as an integer', () => {
+    expect(() => LdapCodecs.integer.encode('abc' as any)).to.throw(TypeError)
+    expect(() => LdapCodecs.integer.encode(NaN)).to.throw(TypeError)
+    expect(LdapCodecs.integer.encode(42.7)).to.equal('42')
+  })
+  it('should convert Windows FILETIME', () => {
+    const date = new Date('2024-03-01T12:00:00Z')
+    const encoded = LdapCodecs.windowsFileTime.encode(date)
+    expect(encoded).to.equal('133537680000000000')
+    expect(LdapCodecs.windowsFileTime.decode(encoded)?.getTime()).to.equal(date.getTime())
+    expect(LdapCodecs.windowsFileTime.decode('9223372036854775807')).to.be.undefined
+  })
+  it('should convert GeneralizedTime', () => {
+    expect(LdapCodecs.generalizedTime.encode(new Date('2024-03-01T12:00:00Z'))).to.equal('20240301120000Z')
+    expect(LdapCodecs.generalizedTime.decode('20240301120000Z')?.toISOString()).to.equal('2024-03-01T12:00:00.000Z')
+  })
+  it('should decode with entry.value() using the configured codecs', async () => {
+    const codecClient = new Ldap({ codecs: { uidNumber: null, employeeNumber: 'integer' } })
+    const entry = new LdapEntry({ dn: 'cn=a', employeeNumber: '42', uidNumber: '1000', accountExpires: '0' }, codecClient)
+    expect(entry.value('employeeNumber')).to.equal(42)
+    expect(entry.value('uidNumber')).to.equal('1000')
+    expect(entry.value('accountExpires')).to.be.undefined
+    await codecClient.close()
+  })
+  it('should encode writes with the configured codecs', async () => {
+    const codecClient = new Ldap({ codecs: { description: 'json' } })
+    await codecClient.setAttribute(fry, 'description', { favorite: 'Slurm' })
+    const entry = await codecClient.get(fry)
+    expect(entry.get('description')).to.equal('{"favorite":"Slurm"}')
+    expect(entry.value('description')).to.deep.equal({ favorite: 'Slurm' })
+    await codecClient.close()
+  })
+})
@@ -0,0 +1,44 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+/* global describe, it */
+import { expect } from 'chai'
+import ldap from '../src/client'
+
+const Person = ldap.defineModel({
+  objectClass: ['inetOrgPerson'],
+  base: 'ou=people,dc=planetexpress,dc=com',
+  rdn: 'name',
+  fields: {
+    name: { attribute: 'cn', required: true },
+    surname: { attribute: 'sn', required: true },
+    uid: {},
+    mail: { multiple: true },
+    employeeNumber: { type: 'number' }
+  }
+})
+
+describe('model tests', () => {
+  it('should find typed objects', async () => {
+    const fry = await Person.findOne('(uid=fry)')
+    expect(fry?.dn).to.equal('cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com')
+    const surname: string | undefined = fry?.surname
+    expect(surname).to.equal('Fry')
+    expect(fry?.mail).to.be.an('array')
+    const everyone = await Person.find()
+    expect(everyone.length).to.be.greaterThan(1)
+  })
+  it('should only find entries with the model\'s object class', async () => {
+    expect(await Person.findByDn('cn=ship_crew,ou=people,dc=planetexpress,dc=com')).to.be.undefined
+    expect(await Person.findByDn('cn=Nobody,ou=people,dc=planetexpress,dc=com')).to.be.undefined
+  })
+  it('should create, update and delete an entry', async () => {
+    const kif = await Person.create({ name: 'Kif Kroker', surname: 'Kroker', mail: ['kif@nimbus.com'], employeeNumber: 7 })
+    expect(kif.dn).to.equal('cn=Kif Kroker,ou=people,dc=planetexpress,dc=com')
+    const updated = await Person.update(kif.dn, { name: 'Lieutenant Kif Kroker', employeeNumber: 8, mail: undefined })
+    expect(updated.dn).to.equal('cn=Lieutenant Kif Kroker,ou=people,dc=planetexpress,dc=com')
+    const employeeNumber: number | undefined = updated.employeeNumber
+    expect(employeeNumber).to.equal(8)
+    expect(updated.mail).to.deep.equal([])
+    await Person.delete(updated.dn)
+    expect(await Person.findByDn(updated.dn)).to.be.undefined
+  })
+})
@@ -0,0 +1,85 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+/* global describe, it */
+import { expect } from 'chai'
+import ldap from '../src/client'
+import Ldap, { LdapEntry } from '../src'
+import { parseLdapUrl } from '../src/groups'
+
+const fryDN = 'cn=Philip J. Fry,ou=people,dc=planetexpress,dc=com'
+const leelaDN = 'cn=Turanga Leela,ou=people,dc=planetexpress,dc=com'
+const uniqueDN = 'cn=unique_crew,ou=people,dc=planetexpress,dc=com'
+const posixDN = 'cn=posix_crew,ou=people,dc=planetexpress,dc=com'
+const dynamicDN = 'cn=dynamic_crew,ou=people,dc=planetexpress,dc=com'
+
+describe('group type tests', () => {
+  it('should parse the search out of an LDAP URL', () => {
+    expect(parseLdapUrl('ldap:///ou=people,dc=planetexpress,dc=com??sub?(employeeType=Delivery%20boy)')).to.deep.equal({
+      base: 'ou=people,dc=planetexpress,dc=com',
+      attributes: [],
+      scope: 'sub',
+      filter: '(employeeType=Delivery boy)'
+    })
+    expect(parseLdapUrl('ldap://elsewhere:389/dc=planetexpress,dc=com').scope).to.equal('base')
+  })
+  it('should check an entry against the scope of an LDAP URL', async () => {
+    const urlClient = new Ldap()
+    let filterMatches = true
+    ;(urlClient as any).search = async () => filterMatches ? [{ dn: fryDN }] : []
+    const matches = async (url: string) => await (urlClient as any).matchesLdapUrl(fryDN, url) as boolean
+    expect(await matches(`ldap:///${fryDN}`)).to.be.true
+    expect(await matches('ldap:///ou=people,dc=planetexpress,dc=com')).to.be.false
+    expect(await matches('ldap:///ou=people,dc=planetexpress,dc=com??one')).to.be.true
+    expect(await matches('ldap:///dc=planetexpress,dc=com??one')).to.be.false
+    expect(await matches('ldap:///dc=planetexpress,dc=com??sub')).to.be.true
+    expect(await matches('ldap:///ou=staff,dc=planetexpress,dc=com??sub')).to.be.false
+    filterMatches = false
+    expect(await matches('ldap:///dc=planetexpress,dc=com??sub?(uid=bender)')).to.be.false
+    await urlClient.close()
+  })
+  it('should check membership in a dynamic group through its memberURL', async () => {
+    const dynamicClient = new Ldap()
+    const dynamic = new LdapEntry({ dn: dynamicDN, objectClass: ['groupOfURLs'], memberURL: ['ldap:///ou=people,dc=planetexpress,dc=com??one?(uid=fry)'] }, dynamicClient)
+    ;(dynamicClient as any).groupsMechanism = async () => 'search'
+    ;(dynamicClient as any).uidsOf = async () => []
+    ;(dynamicClient as any).namingContextFor = async () => 'dc=planetexpress,dc=com'
+    ;(dynamicClient as any).search = async (base: string, options: { filter: unknown }) => {
+      if (base === dynamicDN) return [dynamic]
+      // the URL's filter, checked against the member itself
+      if (base === fryDN && String(options.filter) === '(uid=fry)') return [{ dn: fryDN }]
+      return []
+    }
+    expect(await dynamicClient.isMember(fryDN, dynamicDN)).to.be.true
+    expect(await dynamicClient.isMember(leelaDN, dynamicDN)).to.be.false
+    await dynamicClient.close()
+  })
+  it('should edit and expand a groupOfUniqueNames', async () => {
+    await ldap.add(uniqueDN, { objectClass: 'groupOfUniqueNames', cn: 'unique_crew', uniqueMember: leelaDN })
+    await ldap.addMember(fryDN, uniqueDN)
+    const group = await ldap.get(uniqueDN)
+    expect(group.all('uniqueMember')).to.have.members([leelaDN, fryDN])
+    expect(group.all('member')).to.have.lengthOf(0)
+    const members = await ldap.getMembers(uniqueDN)
+    expect(members.map(m => m.dn)).to.have.members([leelaDN, fryDN])
+    expect(await ldap.isMember(fryDN, uniqueDN)).to.be.true
+    expect((await ldap.getGroups(fryDN, { mechanism: 'search' })).map(g => g.dn)).to.include(uniqueDN)
+    await ldap.removeMember(fryDN, uniqueDN)
+    expect((await ldap.get(uniqueDN)).all('uniqueMember')).to.deep.equal([leelaDN])
+    await ldap.pushAttribute(uniqueDN, 'uniqueMember', `${fryDN}#'0101'B`)
+    await ldap.removeMember(fryDN.toUpperCase(), uniqueDN)
+    expect((await ldap.get(uniqueDN)).all('uniqueMember')).to.deep.equal([leelaDN])
+    await ldap.remove(uniqueDN)
+  })
+  it('should edit and expand a posixGroup', async () => {
+    await ldap.add(posixDN, { objectClass: 'posixGroup', cn: 'posix_crew', gidNumber: 5000, memberUid: 'leela' })
+    await ldap.addMember(fryDN, posixDN)
+    expect((await ldap.get(posixDN)).all('memberUid')).to.have.members(['leela', 'fry'])
+    const members = await ldap.getMembers(posixDN)
+    expect(members.map(m => m.dn)).to.have.members([leelaDN, fryDN])
+    expect(await ldap.isMember(fryDN, posixDN)).to.be.true
+    expect((await ldap.getGroups(fryDN, { mechanism: 'search' })).map(g => g.dn)).to.include(posixDN)
+    await ldap.removeMember(fryDN, posixDN)
+    expect((await ldap.get(posixDN)).all('memberUid')).to.deep.equal(['leela'])
+    expect(await ldap.isMember(fryDN, posixDN)).to.be.false
+    await ldap.remove(posixDN)
+  })
+})